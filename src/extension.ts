@@ -1,6 +1,20 @@
 import * as vscode from 'vscode';
 import { I18nProvider } from './i18nProvider';
 import { I18nLocalesScanner } from './i18nLocalesScanner';
+import { I18nDiagnostics } from './i18nDiagnostics';
+import { I18nCodeActionProvider } from './i18nCodeActionProvider';
+import { I18nTranslationWriter } from './i18nTranslationWriter';
+import { I18nLocalesWatcher } from './i18nLocalesWatcher';
+import { I18nFallbacks } from './i18nFallbacks';
+import { I18nKeyExtractor } from './i18nKeyExtractor';
+import { I18nRenameProvider } from './i18nRenameProvider';
+import { I18nReferenceProvider } from './i18nReferenceProvider';
+import { I18nUsageIndex } from './i18nUsageIndex';
+import { I18nUnusedKeys, UNUSED_KEYS_VIEW_ID } from './i18nUnusedKeys';
+import { I18nInlinePreview } from './i18nInlinePreview';
+import { I18nLocaleFileProvider } from './i18nLocaleFileProvider';
+import { I18nSymbolProvider } from './i18nSymbolProvider';
+import { I18nTranslationMatrix } from './i18nTranslationMatrix';
 
 /**
  * Rails I18n 확장 프로그램
@@ -12,11 +26,52 @@ export function activate(context: vscode.ExtensionContext) {
   
   // 로케일 스캐너 및 제공자 초기화
   const localesScanner = new I18nLocalesScanner(outputChannel);
-  const provider = new I18nProvider(localesScanner, outputChannel);
+  const fallbacks = new I18nFallbacks(localesScanner, outputChannel);
+  const provider = new I18nProvider(localesScanner, outputChannel, fallbacks);
+  const translationWriter = new I18nTranslationWriter(localesScanner, outputChannel);
+  const keyExtractor = new I18nKeyExtractor(localesScanner, outputChannel, fallbacks, translationWriter);
+  const usageIndex = new I18nUsageIndex(outputChannel);
+  const renameProvider = new I18nRenameProvider(localesScanner, outputChannel, usageIndex);
+  const localeFileProvider = new I18nLocaleFileProvider(localesScanner, outputChannel, fallbacks);
+  const symbolProvider = new I18nSymbolProvider(localesScanner, outputChannel);
+  const unusedKeys = new I18nUnusedKeys(localesScanner, outputChannel, usageIndex, translationWriter);
   
   // 기능 등록
-  registerProviders(context, provider);
-  registerCommands(context, localesScanner);
+  registerProviders(context, provider, localesScanner, renameProvider, localeFileProvider, symbolProvider, usageIndex);
+  registerCommands(context, localesScanner, translationWriter, keyExtractor, unusedKeys);
+  
+  // 워크스페이스의 I18n 키 사용 위치 색인 (소스 파일 변경 감시)
+  context.subscriptions.push(usageIndex);
+  
+  // 사용하지 않는 키 트리 뷰
+  context.subscriptions.push(
+    unusedKeys,
+    vscode.window.registerTreeDataProvider(UNUSED_KEYS_VIEW_ID, unusedKeys)
+  );
+  
+  // I18n 폴백 설정 (Rails 설정 파일 변경 감시)
+  context.subscriptions.push(fallbacks);
+  
+  // 누락된 키 진단
+  const diagnostics = new I18nDiagnostics(localesScanner, outputChannel, fallbacks);
+  context.subscriptions.push(diagnostics);
+  
+  // 호출 옆의 인라인 번역 미리보기
+  const inlinePreview = new I18nInlinePreview(localesScanner, outputChannel, fallbacks);
+  context.subscriptions.push(
+    inlinePreview,
+    vscode.commands.registerCommand('rails-i18n.toggleInlinePreview', () => inlinePreview.toggle())
+  );
+  
+  // 키 × 로케일 번역 매트릭스 편집기
+  const translationMatrix = new I18nTranslationMatrix(localesScanner, outputChannel, translationWriter);
+  context.subscriptions.push(
+    translationMatrix,
+    vscode.commands.registerCommand('rails-i18n.openTranslationMatrix', () => translationMatrix.open())
+  );
+  
+  // 로케일 파일 변경 감시 (변경된 파일만 재색인)
+  context.subscriptions.push(new I18nLocalesWatcher(localesScanner, outputChannel));
   
   // 활성화 시 초기 스캔 실행
   localesScanner.scanLocaleFiles().catch(err => {
@@ -27,7 +82,15 @@ export function activate(context: vscode.ExtensionContext) {
 /**
  * 모든 제공자 등록
  */
-function registerProviders(context: vscode.ExtensionContext, provider: I18nProvider): void {
+function registerProviders(
+  context: vscode.ExtensionContext,
+  provider: I18nProvider,
+  localesScanner: I18nLocalesScanner,
+  renameProvider: I18nRenameProvider,
+  localeFileProvider: I18nLocaleFileProvider,
+  symbolProvider: I18nSymbolProvider,
+  usageIndex: I18nUsageIndex
+): void {
   // 자동 완성 제공자
   context.subscriptions.push(
     vscode.languages.registerCompletionItemProvider(
@@ -36,7 +99,8 @@ function registerProviders(context: vscode.ExtensionContext, provider: I18nProvi
       '.', // 트리거 문자
       '(', // I18n.t( 이후에 자동 완성 제공
       '"',
-      "'"
+      "'",
+      ',' // t('key', 이후에 보간 변수 제안
     )
   );
   
@@ -49,12 +113,49 @@ function registerProviders(context: vscode.ExtensionContext, provider: I18nProvi
   context.subscriptions.push(
     vscode.languages.registerDefinitionProvider(['ruby', 'erb'], provider)
   );
+  
+  // 누락된 번역 빠른 수정 제공자
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(
+      ['ruby', 'erb'],
+      new I18nCodeActionProvider(localesScanner),
+      { providedCodeActionKinds: I18nCodeActionProvider.providedCodeActionKinds }
+    )
+  );
+  
+  // 키 이름 바꾸기 제공자 (코드의 호출과 로케일 YAML 파일의 키)
+  context.subscriptions.push(
+    vscode.languages.registerRenameProvider(['ruby', 'erb', 'yaml'], renameProvider)
+  );
+  
+  // 로케일 YAML 파일의 키에서 코드의 사용 위치 찾기
+  context.subscriptions.push(
+    vscode.languages.registerReferenceProvider('yaml', new I18nReferenceProvider(localesScanner, usageIndex))
+  );
+  
+  // 로케일 YAML 파일의 키에서 다른 로케일의 번역 값 확인 및 정의로 이동
+  context.subscriptions.push(
+    vscode.languages.registerHoverProvider('yaml', localeFileProvider),
+    vscode.languages.registerDefinitionProvider('yaml', localeFileProvider)
+  );
+  
+  // 로케일 파일의 키 트리 개요와 워크스페이스 키 검색 (Ctrl+T)
+  context.subscriptions.push(
+    vscode.languages.registerDocumentSymbolProvider('yaml', symbolProvider, { label: 'Rails I18n' }),
+    vscode.languages.registerWorkspaceSymbolProvider(symbolProvider)
+  );
 }
 
 /**
  * 명령 등록
  */
-function registerCommands(context: vscode.ExtensionContext, localesScanner: I18nLocalesScanner): void {
+function registerCommands(
+  context: vscode.ExtensionContext,
+  localesScanner: I18nLocalesScanner,
+  translationWriter: I18nTranslationWriter,
+  keyExtractor: I18nKeyExtractor,
+  unusedKeys: I18nUnusedKeys
+): void {
   // 로케일 파일 스캔 명령
   context.subscriptions.push(
     vscode.commands.registerCommand('rails-i18n.scanI18nKeys', async () => {
@@ -67,6 +168,44 @@ function registerCommands(context: vscode.ExtensionContext, localesScanner: I18n
       }
     })
   );
+  
+  // 누락된 번역 추가 명령 (빠른 수정에서 호출)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('rails-i18n.addMissingTranslation', async (key: string, lang: string) => {
+      const value = await vscode.window.showInputBox({
+        prompt: `${lang} 로케일에 추가할 "${key}"의 번역 값을 입력하세요`,
+        placeHolder: '번역 값'
+      });
+      
+      // 입력을 취소한 경우
+      if (value === undefined) {
+        return;
+      }
+      
+      try {
+        const filePath = await translationWriter.addTranslation(key, lang, value);
+        vscode.window.showInformationMessage(`"${key}" 번역을 ${filePath}에 추가했습니다.`);
+      } catch (error) {
+        console.error('번역 추가 중 오류 발생:', error);
+        vscode.window.showErrorMessage(`번역 추가 중 오류가 발생했습니다: ${error}`);
+      }
+    })
+  );
+  
+  // 선택한 문자열을 I18n 키로 추출 명령
+  context.subscriptions.push(
+    vscode.commands.registerTextEditorCommand('rails-i18n.extractToI18nKey', editor => keyExtractor.extract(editor))
+  );
+  
+  // 사용하지 않는 키 찾기 명령
+  context.subscriptions.push(
+    vscode.commands.registerCommand('rails-i18n.findUnusedKeys', () => unusedKeys.findUnusedKeys())
+  );
+  
+  // 사용하지 않는 키를 모든 로케일에서 삭제 명령 (트리 뷰 항목에서 호출)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('rails-i18n.deleteUnusedKey', node => unusedKeys.deleteKey(node))
+  );
 }
 
 /**
@@ -0,0 +1,369 @@
+import { I18nCall, parseCallOptions, splitArguments } from './i18nCallFinder';
+import { getEnclosingClassName, underscore } from './i18nLazyLookup';
+
+// ActiveRecord와 ActiveModel의 번역 범위 (i18n_scope)
+const I18N_SCOPES = ['activerecord', 'activemodel'];
+
+// ActiveRecord 모델의 기본 클래스 (ApplicationRecord, Admin::ApplicationRecord, ActiveRecord::Base)
+const ACTIVE_RECORD_BASE_PATTERN = /^(?:::)?(?:ActiveRecord::Base|(?:[A-Z]\w*::)*ApplicationRecord)$/;
+
+// ActiveModel 모델로 만드는 모듈 (include ActiveModel::Model)
+const ACTIVE_MODEL_INCLUDE_PATTERN = /^\s*(?:include|extend)\s+(?:::)?ActiveModel::(?:Model|API|Validations|Naming|Translation)\b/m;
+
+// Rails 프레임워크의 클래스 (ActiveModel::EachValidator 등은 모델이 아님)
+const FRAMEWORK_CLASS_PATTERN = /^(?:::)?(?:ActiveModel|ActiveRecord|ActiveSupport|ActionController|ActionMailer|ActiveJob)::/;
+
+// 검증 옵션별 오류 유형 (length는 옵션에 따라 다름)
+const VALIDATOR_ERROR_TYPES: { [validator: string]: string } = {
+  presence: 'blank',
+  absence: 'present',
+  uniqueness: 'taken',
+  format: 'invalid',
+  inclusion: 'inclusion',
+  exclusion: 'exclusion',
+  confirmation: 'confirmation',
+  acceptance: 'accepted',
+  numericality: 'not_a_number',
+  length: 'too_short'
+};
+
+/**
+ * 번역 조회에 사용하는 모델 클래스 정보
+ */
+export interface I18nModelClass {
+  name: string; // 클래스 이름 (Admin::User)
+  i18nScopes: string[]; // 번역 범위 (알 수 없으면 activerecord, activemodel 모두)
+  ancestors: string[]; // lookup_ancestors (자신부터 STI 상위 모델까지)
+}
+
+// 클래스 이름 또는 self를 받는 호출 대상 (User., Admin::User., self.class., self.)
+const RECEIVER_PATTERN = '(?:\\b([A-Z]\\w*(?:::[A-Z]\\w*)*)\\.|\\bself\\.(?:class\\.)?|(?<![\\w.:]))';
+
+/**
+ * 문장에서 ActiveRecord/ActiveModel 번역 조회 찾기
+ * (키는 첫 번째 후보, 나머지 후보와 기본 문자열은 default 옵션으로 표현)
+ */
+export function findActiveRecordLookups(text: string, modelClass?: I18nModelClass): I18nCall[] {
+  return [
+    ...findHumanAttributeNames(text, modelClass),
+    ...findModelNameHumans(text, modelClass),
+    ...findValidations(text, modelClass),
+    ...findErrorAdds(text, modelClass)
+  ].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 커서 위치를 감싸는 모델 클래스 (ActiveRecord, ActiveModel 모델이 아니면 undefined)
+ * - ApplicationRecord, ActiveRecord::Base를 상속하면 activerecord
+ * - ActiveModel::Model 등을 include하면 activemodel
+ * - app/models의 다른 클래스를 상속하면 STI 모델로 보고 activerecord
+ */
+export function getEnclosingModelClass(text: string, offset: number, filePath: string): I18nModelClass | undefined {
+  const className = getEnclosingClassName(text, offset);
+  if (!className) {
+    return undefined;
+  }
+  
+  const superclasses = getDeclaredSuperclasses(text);
+  const findSuperclass = (name: string) => {
+    const declared = Array.from(superclasses.keys()).find(declaredName => name === declaredName || name.endsWith(`::${declaredName}`));
+    return declared !== undefined ? superclasses.get(declared) : undefined;
+  };
+  
+  // 같은 파일에 선언된 상위 클래스를 따라 올라가기
+  const ancestors = [className];
+  let superclass = findSuperclass(className);
+  while (superclass && !ACTIVE_RECORD_BASE_PATTERN.test(superclass) && superclasses.has(superclass) && !ancestors.includes(superclass)) {
+    ancestors.push(superclass);
+    superclass = superclasses.get(superclass);
+  }
+  
+  if (superclass && ACTIVE_RECORD_BASE_PATTERN.test(superclass)) {
+    return { name: className, i18nScopes: ['activerecord'], ancestors };
+  }
+  
+  const isInheritedModel = superclass !== undefined && !FRAMEWORK_CLASS_PATTERN.test(superclass);
+  if (ACTIVE_MODEL_INCLUDE_PATTERN.test(text)) {
+    return { name: className, i18nScopes: ['activemodel'], ancestors: isInheritedModel ? [...ancestors, superclass!] : ancestors };
+  }
+  
+  if (isInheritedModel && /(?:^|\/)app\/models\//.test(filePath.replace(/\\/g, '/'))) {
+    return { name: className, i18nScopes: ['activerecord'], ancestors: [...ancestors, superclass!] };
+  }
+  
+  return undefined;
+}
+
+/**
+ * 문서에 선언된 클래스의 상위 클래스 (class User < ApplicationRecord -> User: ApplicationRecord)
+ */
+function getDeclaredSuperclasses(text: string): Map<string, string | undefined> {
+  const superclasses = new Map<string, string | undefined>();
+  const regex = /^\s*class\s+([A-Z][\w:]*)(?:\s*<\s*((?:::)?[A-Z][\w:]*))?/gm;
+  let match;
+  
+  while ((match = regex.exec(text)) !== null) {
+    superclasses.set(match[1], match[2]);
+  }
+  
+  return superclasses;
+}
+
+/**
+ * 호출 대상의 모델 클래스 (대상이 없거나 둘러싼 클래스이면 둘러싼 모델, 다른 클래스는 범위를 알 수 없음)
+ */
+function resolveModelClass(receiver: string | undefined, modelClass?: I18nModelClass): I18nModelClass | undefined {
+  if (!receiver || (modelClass && (modelClass.name === receiver || modelClass.name.endsWith(`::${receiver}`)))) {
+    return modelClass;
+  }
+  
+  return { name: receiver, i18nScopes: I18N_SCOPES, ancestors: [receiver] };
+}
+
+/**
+ * Model.human_attribute_name(:attr)
+ */
+function findHumanAttributeNames(text: string, enclosingClass?: I18nModelClass): I18nCall[] {
+  const lookups: I18nCall[] = [];
+  const regex = new RegExp(`${RECEIVER_PATTERN}human_attribute_name\\s*\\(?\\s*(?::(\\w+)|(["'])([\\w.]+)\\3)`, 'g');
+  let match;
+  
+  while ((match = regex.exec(text)) !== null) {
+    const modelClass = resolveModelClass(match[1], enclosingClass);
+    if (!modelClass) {
+      continue;
+    }
+    
+    const attribute = match[2] || match[4];
+    const keyEnd = match.index + match[0].length - (match[4] ? 1 : 0);
+    lookups.push(createLookup(
+      getAttributeKeys(modelClass, attribute),
+      humanize(attribute.split('.').pop()!),
+      match.index,
+      match.index + match[0].length,
+      keyEnd - attribute.length,
+      keyEnd
+    ));
+  }
+  
+  return lookups;
+}
+
+/**
+ * Model.model_name.human
+ */
+function findModelNameHumans(text: string, enclosingClass?: I18nModelClass): I18nCall[] {
+  const lookups: I18nCall[] = [];
+  const regex = new RegExp(`${RECEIVER_PATTERN}model_name\\.human\\b`, 'g');
+  let match;
+  
+  while ((match = regex.exec(text)) !== null) {
+    const modelClass = resolveModelClass(match[1], enclosingClass);
+    if (!modelClass) {
+      continue;
+    }
+    
+    const start = match.index;
+    const end = start + match[0].length;
+    lookups.push(createLookup(
+      flatMapScopes(modelClass, (scope, modelKey) => [`${scope}.models.${modelKey}`]),
+      humanize(getModelKey(modelClass.name).split('/').pop()!),
+      start,
+      end,
+      start,
+      end
+    ));
+  }
+  
+  return lookups;
+}
+
+/**
+ * validates :attr, presence: true / validates_presence_of :attr
+ */
+function findValidations(text: string, modelClass?: I18nModelClass): I18nCall[] {
+  if (!modelClass) {
+    return [];
+  }
+  
+  const lookups: I18nCall[] = [];
+  const validatesMatch = text.match(/^(\s*validates(?:_(\w+)_of)?\b\s*\(?\s*)([\s\S]*)$/);
+  if (!validatesMatch) {
+    return lookups;
+  }
+  
+  const argsOffset = validatesMatch[1].length;
+  const args = validatesMatch[3];
+  const attributes: string[] = [];
+  let searchFrom = 0;
+  
+  for (const part of splitArguments(args)) {
+    const partStart = args.indexOf(part, searchFrom);
+    searchFrom = partStart + part.length;
+    const partOffset = argsOffset + partStart;
+    
+    // 속성 심볼 - validates_presence_of는 오류 메시지, validates는 속성 이름
+    const attributeMatch = part.match(/^:(\w+)$/);
+    if (attributeMatch) {
+      const attribute = attributeMatch[1];
+      attributes.push(attribute);
+      const start = partOffset + 1;
+      const end = start + attribute.length;
+      
+      if (validatesMatch[2]) {
+        const errorType = VALIDATOR_ERROR_TYPES[validatesMatch[2]];
+        if (errorType) {
+          lookups.push(createLookup(getErrorMessageKeys(modelClass, attribute, errorType), undefined, start, end, start, end));
+        }
+      } else {
+        lookups.push(createLookup(getAttributeKeys(modelClass, attribute), humanize(attribute), start, end, start, end));
+      }
+      continue;
+    }
+    
+    // 검증 옵션 - 첫 번째 속성의 오류 메시지
+    const validatorMatch = part.match(/^(\w+):\s*([\s\S]*)$/);
+    if (validatorMatch && VALIDATOR_ERROR_TYPES[validatorMatch[1]] && attributes.length > 0) {
+      const errorType = getValidatorErrorType(validatorMatch[1], validatorMatch[2]);
+      const start = partOffset;
+      const end = start + validatorMatch[1].length;
+      lookups.push(createLookup(getErrorMessageKeys(modelClass, attributes[0], errorType), undefined, start, end, start, end));
+    }
+  }
+  
+  return lookups;
+}
+
+/**
+ * errors.add(:attr, :type)
+ */
+function findErrorAdds(text: string, modelClass?: I18nModelClass): I18nCall[] {
+  if (!modelClass) {
+    return [];
+  }
+  
+  const lookups: I18nCall[] = [];
+  const regex = /\berrors\.add\s*\(?\s*:(\w+)\s*,\s*:(\w+)/g;
+  let match;
+  
+  while ((match = regex.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    lookups.push(createLookup(
+      getErrorMessageKeys(modelClass, match[1], match[2]),
+      undefined,
+      match.index,
+      end,
+      end - match[2].length,
+      end
+    ));
+  }
+  
+  return lookups;
+}
+
+/**
+ * 검증 옵션 값에 따른 오류 유형 (message: :custom 이 있으면 해당 유형)
+ */
+function getValidatorErrorType(validator: string, value: string): string {
+  const hashMatch = value.match(/^\{([\s\S]*)\}$/);
+  const options = parseCallOptions(hashMatch ? hashMatch[1] : undefined).options;
+  
+  const message = options.get('message');
+  const messageMatch = message ? message.match(/^:(\w+)$/) : null;
+  if (messageMatch) {
+    return messageMatch[1];
+  }
+  
+  if (validator === 'length') {
+    if (options.has('maximum')) {
+      return 'too_long';
+    }
+    if (options.has('is')) {
+      return 'wrong_length';
+    }
+  }
+  
+  return VALIDATOR_ERROR_TYPES[validator];
+}
+
+/**
+ * 모델 클래스의 i18n_key (Admin::User -> admin/user)
+ */
+function getModelKey(className: string): string {
+  return underscore(className);
+}
+
+/**
+ * 번역 범위별로 lookup_ancestors의 키 목록 생성 (범위 순서가 우선)
+ */
+function flatMapScopes(modelClass: I18nModelClass, getKeys: (scope: string, modelKey: string) => string[]): string[] {
+  const keys: string[] = [];
+  modelClass.i18nScopes.forEach(scope => {
+    modelClass.ancestors.forEach(ancestor => keys.push(...getKeys(scope, getModelKey(ancestor))));
+  });
+  return keys;
+}
+
+/**
+ * human_attribute_name의 조회 순서
+ * (속성 이름에 점이 있으면 중첩 모델의 속성: address.street -> user/address.street)
+ */
+function getAttributeKeys(modelClass: I18nModelClass, attribute: string): string[] {
+  const parts = attribute.split('.');
+  const attributeName = parts.pop()!;
+  
+  return [
+    ...flatMapScopes(modelClass, (scope, modelKey) => [`${scope}.attributes.${[modelKey, ...parts].join('/')}.${attributeName}`]),
+    `attributes.${attributeName}`
+  ];
+}
+
+/**
+ * 오류 메시지의 조회 순서 (ActiveModel::Error#generate_message)
+ * (범위마다 모든 상위 모델의 키 다음에 범위의 공통 메시지)
+ */
+function getErrorMessageKeys(modelClass: I18nModelClass, attribute: string, type: string): string[] {
+  const keys: string[] = [];
+  
+  modelClass.i18nScopes.forEach(scope => {
+    modelClass.ancestors.forEach(ancestor => {
+      const modelKey = getModelKey(ancestor);
+      keys.push(`${scope}.errors.models.${modelKey}.attributes.${attribute}.${type}`);
+      keys.push(`${scope}.errors.models.${modelKey}.${type}`);
+    });
+    keys.push(`${scope}.errors.messages.${type}`);
+  });
+  keys.push(`errors.attributes.${attribute}.${type}`);
+  keys.push(`errors.messages.${type}`);
+  
+  return keys;
+}
+
+/**
+ * 조회 순서로 호출 정보 생성
+ */
+function createLookup(
+  keys: string[],
+  text: string | undefined,
+  start: number,
+  end: number,
+  keyStart: number,
+  keyEnd: number
+): I18nCall {
+  return {
+    key: keys[0],
+    start,
+    end,
+    keyStart,
+    keyEnd,
+    defaults: { keys: keys.slice(1), text, isDynamic: false }
+  };
+}
+
+/**
+ * Rails의 humanize (first_name -> First name, author_id -> Author)
+ */
+function humanize(name: string): string {
+  const words = name.replace(/_id$/, '').replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.substring(1);
+}
\ No newline at end of file
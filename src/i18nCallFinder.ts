@@ -0,0 +1,576 @@
+import { RubyToken, tokenizeRubyDocument } from './i18nRubyTokenizer';
+
+/**
+ * 문서에서 발견된 I18n 호출 정보 (위치는 텍스트 처음부터의 오프셋)
+ */
+export interface I18nCall {
+  key: string;
+  start: number; // 호출 시작 위치
+  end: number; // 호출 끝 위치
+  keyStart: number; // 키 문자열 시작 위치 (따옴표 제외)
+  keyEnd: number; // 키 문자열 끝 위치 (따옴표 제외)
+  args?: string; // 키 다음의 인자 텍스트 (예: "name: user.name, count: 3")
+  argsStart?: number; // 인자 텍스트 시작 위치
+  hasOpenArgs?: boolean; // 인자 괄호가 닫히지 않았는지 여부
+  defaults?: I18nCallDefaults; // default 옵션
+}
+
+/**
+ * default 옵션 정보 (Rails와 같이 첫 번째 문자열 기본값 이후의 키는 무시)
+ */
+export interface I18nCallDefaults {
+  keys: string[]; // 차례로 찾는 기본값 키 (심볼)
+  text?: string; // 키를 모두 찾지 못했을 때 사용하는 문자열
+  isDynamic: boolean; // 변수 등 해석할 수 없는 기본값이 있는지 여부
+}
+
+/**
+ * I18n 호출의 옵션 인자 정보
+ */
+export interface I18nCallOptions {
+  options: Map<string, string>; // 옵션 이름 -> 값 텍스트
+  hasUnknownOptions: boolean; // **options 같이 이름을 알 수 없는 옵션이 있는지 여부
+}
+
+// 번역 메소드 이름 (I18n.t, I18n.translate!, 뷰 헬퍼 t)
+const TRANSLATE_METHODS = ['t', 't!', 'translate', 'translate!'];
+
+// 메일러의 현재 액션 subject 키를 사용하는 메소드
+const SUBJECT_METHOD = 'default_i18n_subject';
+
+// 괄호 없는 호출의 인자를 끝내는 수식어 키워드 (t 'key' if admin?)
+const MODIFIER_KEYWORDS = ['if', 'unless', 'while', 'until', 'rescue', 'and', 'or', 'do', 'then'];
+
+/**
+ * 키 리터럴 (문자열, 심볼) 정보
+ */
+interface KeyLiteral {
+  key: string;
+  start: number; // 키 시작 위치 (따옴표, 콜론 제외)
+  end: number; // 키 끝 위치
+}
+
+/**
+ * 토큰으로 읽은 호출 인자 범위
+ */
+interface CallArguments {
+  groups: Array<{ start: number, end: number }>; // 쉼표로 구분된 인자의 토큰 범위 (end 제외)
+  commas: RubyToken[]; // 인자 사이의 쉼표 토큰
+  end: number; // 호출 끝 위치 (닫는 괄호 포함)
+  argsEnd: number; // 마지막 인자 끝 위치 (닫는 괄호 제외)
+  isClosed: boolean; // 괄호가 닫혔는지 여부 (괄호 없는 호출은 항상 true)
+}
+
+/**
+ * 문서에서 모든 I18n.t 호출 찾기 (여러 줄 호출, 괄호 없는 호출, ERB 태그 포함)
+ */
+export function findAllI18nCalls(text: string, isErb: boolean = false): I18nCall[] {
+  const allTokens = tokenizeRubyDocument(text, isErb);
+  const comments = allTokens.filter(token => token.type === 'comment');
+  const tokens = allTokens.filter(token => token.type !== 'comment');
+  const calls: I18nCall[] = [];
+  
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (token.type !== 'identifier' || !isMethodCallToken(tokens, index)) {
+      continue;
+    }
+    
+    if (token.text === SUBJECT_METHOD) {
+      calls.push(readSubjectCall(text, tokens, index, comments));
+    } else if (TRANSLATE_METHODS.includes(token.text)) {
+      calls.push(...readTranslateCalls(text, tokens, index, comments));
+    }
+  }
+  
+  // 시작 위치 기준으로 정렬
+  return calls.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 메소드 호출 위치의 식별자인지 확인 (def t, alias t 제외)
+ */
+function isMethodCallToken(tokens: RubyToken[], index: number): boolean {
+  const previous = tokens[index - 1];
+  return !previous || !(previous.type === 'identifier' && (previous.text === 'def' || previous.text === 'alias'));
+}
+
+/**
+ * 호출 시작 위치 (I18n.t는 I18n부터, 다른 수신자는 메소드 이름부터)
+ */
+function getCallStart(tokens: RubyToken[], methodIndex: number): number {
+  const dot = tokens[methodIndex - 1];
+  const receiver = tokens[methodIndex - 2];
+  if (dot && dot.text === '.' && receiver && receiver.type === 'constant' && receiver.text === 'I18n') {
+    const scope = tokens[methodIndex - 3];
+    return scope && scope.text === '::' && !receiver.spaceBefore ? scope.start : receiver.start;
+  }
+  return tokens[methodIndex].start;
+}
+
+/**
+ * 번역 메소드 호출 읽기 (t("key"), t "key", t(:key, scope: ...), t([:a, :b]), I18n.t["key"])
+ */
+function readTranslateCalls(text: string, tokens: RubyToken[], methodIndex: number, comments: RubyToken[]): I18nCall[] {
+  const start = getCallStart(tokens, methodIndex);
+  const next = tokens[methodIndex + 1];
+  if (!next) {
+    return [];
+  }
+  
+  // 인덱스 호출 (I18n.t["key"])
+  if (next.text === '[' && !next.spaceBefore) {
+    const keyToken = tokens[methodIndex + 2];
+    const close = tokens[methodIndex + 3];
+    const literal = keyToken && readStringLiteral(keyToken);
+    if (!literal || !close || close.text !== ']') {
+      return [];
+    }
+    return [{ key: literal.key, start, end: close.end, keyStart: literal.start, keyEnd: literal.end }];
+  }
+  
+  const callArguments = next.text === '('
+    ? readParenthesizedArguments(tokens, methodIndex + 1)
+    : next.spaceBefore && isKeyArgumentStart(next) ? readCommandArguments(tokens, methodIndex + 1) : undefined;
+  if (!callArguments || callArguments.groups.length === 0) {
+    return [];
+  }
+  
+  const keyGroup = callArguments.groups[0];
+  const literals = readKeyArgumentTokens(tokens.slice(keyGroup.start, keyGroup.end));
+  if (!literals) {
+    return [];
+  }
+  
+  // 키 다음의 인자 텍스트 (입력 중이라 닫히지 않은 괄호는 쉼표가 있는 줄 끝까지)
+  const argsStart = callArguments.commas.length > 0 ? callArguments.commas[0].end : undefined;
+  let argsEnd = callArguments.argsEnd;
+  if (argsStart !== undefined && !callArguments.isClosed) {
+    const lineEnd = text.indexOf('\n', argsStart);
+    argsEnd = lineEnd === -1 ? text.length : lineEnd;
+  }
+  const args = argsStart !== undefined ? getSourceText(text, argsStart, Math.max(argsStart, argsEnd), comments) : undefined;
+  const end = callArguments.isClosed || argsStart === undefined ? callArguments.end : argsEnd;
+  
+  // scope 옵션이 있으면 키 앞에 범위를 붙임 (lazy lookup 키 제외)
+  const scope = getScopeOption(args);
+  const defaults = getDefaultOption(args, scope);
+  
+  return literals.map(literal => ({
+    key: scope !== undefined && !literal.key.startsWith('.') ? `${scope}.${literal.key}` : literal.key,
+    start,
+    end,
+    keyStart: literal.start,
+    keyEnd: literal.end,
+    args,
+    argsStart,
+    hasOpenArgs: args !== undefined ? !callArguments.isClosed : undefined,
+    defaults
+  }));
+}
+
+/**
+ * 메일러의 default_i18n_subject는 현재 액션의 subject 키(.subject)를 사용
+ */
+function readSubjectCall(text: string, tokens: RubyToken[], methodIndex: number, comments: RubyToken[]): I18nCall {
+  const token = tokens[methodIndex];
+  const next = tokens[methodIndex + 1];
+  const call: I18nCall = { key: '.subject', start: token.start, end: token.end, keyStart: token.start, keyEnd: token.end };
+  
+  // default_i18n_subject(user: user.name) 형태의 보간 인자
+  const callArguments = next && next.text === '(' && !next.spaceBefore
+    ? readParenthesizedArguments(tokens, methodIndex + 1)
+    : next && next.spaceBefore && next.type === 'label' ? readCommandArguments(tokens, methodIndex + 1) : undefined;
+  if (callArguments && callArguments.groups.length > 0) {
+    const argsStart = tokens[callArguments.groups[0].start].start;
+    call.args = getSourceText(text, argsStart, callArguments.argsEnd, comments);
+    call.argsStart = argsStart;
+    call.hasOpenArgs = !callArguments.isClosed;
+  }
+  
+  return call;
+}
+
+/**
+ * 괄호 안의 인자 읽기 (여는 괄호 토큰부터, 줄바꿈과 상관없이 닫는 괄호까지)
+ */
+function readParenthesizedArguments(tokens: RubyToken[], openIndex: number): CallArguments {
+  const result = createCallArguments(tokens[openIndex].end);
+  let depth = 0;
+  let groupStart = openIndex + 1;
+  
+  for (let index = openIndex + 1; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (token.type === 'boundary') {
+      break;
+    }
+    
+    if (token.type === 'punctuation') {
+      if (token.text === '(' || token.text === '[' || token.text === '{') {
+        depth++;
+      } else if (token.text === ')' || token.text === ']' || token.text === '}') {
+        if (depth === 0) {
+          addArgumentGroup(tokens, result, groupStart, index);
+          result.end = token.end;
+          result.argsEnd = token.start;
+          result.isClosed = true;
+          return result;
+        }
+        depth--;
+      } else if (token.text === ',' && depth === 0) {
+        addArgumentGroup(tokens, result, groupStart, index);
+        result.commas.push(token);
+        groupStart = index + 1;
+      }
+    }
+    
+    if (token.type !== 'newline') {
+      result.end = token.end;
+      result.argsEnd = token.end;
+    }
+  }
+  
+  addArgumentGroup(tokens, result, groupStart, tokens.length);
+  return result;
+}
+
+/**
+ * 괄호 없는 호출의 인자 읽기 (줄 끝, ERB 태그 끝, 수식어 키워드 또는 바깥 괄호까지)
+ */
+function readCommandArguments(tokens: RubyToken[], firstIndex: number): CallArguments {
+  const result = createCallArguments(tokens[firstIndex].start);
+  result.isClosed = true;
+  let depth = 0;
+  let groupStart = firstIndex;
+  let index = firstIndex;
+  
+  for (; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (token.type === 'boundary') {
+      break;
+    }
+    
+    // 쉼표나 연산자로 끝난 줄은 다음 줄로 이어짐
+    const previous = tokens[index - 1];
+    if (token.type === 'newline' && depth === 0 && !(previous.text === ',' || previous.type === 'operator')) {
+      break;
+    }
+    
+    if (depth === 0 && token.type === 'identifier' && MODIFIER_KEYWORDS.includes(token.text)) {
+      break;
+    }
+    
+    if (token.type === 'punctuation') {
+      if (token.text === '(' || token.text === '[' || token.text === '{') {
+        depth++;
+      } else if (token.text === ')' || token.text === ']' || token.text === '}') {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      } else if (token.text === ',' && depth === 0) {
+        addArgumentGroup(tokens, result, groupStart, index);
+        result.commas.push(token);
+        groupStart = index + 1;
+      }
+    }
+    
+    if (token.type !== 'newline') {
+      result.end = token.end;
+      result.argsEnd = token.end;
+    }
+  }
+  
+  addArgumentGroup(tokens, result, groupStart, index);
+  return result;
+}
+
+/**
+ * 빈 인자 정보 생성
+ */
+function createCallArguments(position: number): CallArguments {
+  return { groups: [], commas: [], end: position, argsEnd: position, isClosed: false };
+}
+
+/**
+ * 앞뒤 줄바꿈을 제외한 토큰이 있으면 인자로 추가
+ */
+function addArgumentGroup(tokens: RubyToken[], result: CallArguments, start: number, end: number): void {
+  let groupStart = start;
+  let groupEnd = end;
+  while (groupStart < groupEnd && tokens[groupStart].type === 'newline') {
+    groupStart++;
+  }
+  while (groupEnd > groupStart && tokens[groupEnd - 1].type === 'newline') {
+    groupEnd--;
+  }
+  if (groupStart < groupEnd) {
+    result.groups.push({ start: groupStart, end: groupEnd });
+  }
+}
+
+/**
+ * 괄호 없는 호출의 첫 번째 인자가 키 리터럴로 시작하는지 확인
+ */
+function isKeyArgumentStart(token: RubyToken): boolean {
+  return token.type === 'string' || token.type === 'symbol' || token.type === 'words' || token.text === '[';
+}
+
+/**
+ * 첫 번째 인자 토큰의 키 리터럴 읽기 (문자열, 심볼 또는 그 배열)
+ */
+function readKeyArgumentTokens(tokens: RubyToken[]): KeyLiteral[] | undefined {
+  if (tokens.length === 1) {
+    const token = tokens[0];
+    
+    // %i[a b], %w[a b] 배열
+    if (token.type === 'words') {
+      const words = token.words || [];
+      return words.length > 0 ? words.map(word => ({ key: word.value, start: word.start, end: word.end })) : undefined;
+    }
+    
+    const literal = readStringLiteral(token);
+    return literal ? [literal] : undefined;
+  }
+  
+  // [:a, "b"] 배열 (리터럴이 아닌 항목이 있으면 해석하지 않음)
+  if (tokens.length < 3 || tokens[0].text !== '[' || tokens[tokens.length - 1].text !== ']') {
+    return undefined;
+  }
+  
+  const literals: KeyLiteral[] = [];
+  for (const token of tokens.slice(1, -1)) {
+    if (token.text === ',' || token.type === 'newline') {
+      continue;
+    }
+    
+    const literal = readStringLiteral(token);
+    if (!literal) {
+      return undefined;
+    }
+    literals.push(literal);
+  }
+  
+  return literals.length > 0 ? literals : undefined;
+}
+
+/**
+ * 문자열 또는 심볼 토큰의 키 리터럴 ("key", 'key', :key, :"key")
+ */
+function readStringLiteral(token: RubyToken): KeyLiteral | undefined {
+  if ((token.type !== 'string' && token.type !== 'symbol') || !token.value || token.text.startsWith('`')) {
+    return undefined;
+  }
+  
+  return { key: token.value, start: token.valueStart!, end: token.valueEnd! };
+}
+
+/**
+ * 원문 텍스트 (주석은 공백으로 바꿔 위치 유지)
+ */
+function getSourceText(text: string, start: number, end: number, comments: RubyToken[]): string {
+  let source = text.substring(start, end);
+  
+  comments
+    .filter(comment => comment.start >= start && comment.end <= end)
+    .forEach(comment => {
+      const offset = comment.start - start;
+      const length = comment.end - comment.start;
+      source = source.substring(0, offset) + ' '.repeat(length) + source.substring(offset + length);
+    });
+  
+  return source;
+}
+
+/**
+ * 첫 번째 인자의 키 리터럴 읽기 (문자열, 심볼 또는 그 배열)
+ */
+function readKeyArgument(text: string, position: number): { literals: KeyLiteral[], end: number } | undefined {
+  const literal = readKeyLiteral(text, position);
+  if (literal) {
+    return { literals: [literal.literal], end: literal.end };
+  }
+  
+  // %i[a b], %w[a b] 배열
+  const wordsMatch = text.substring(position).match(/^%[iwIW]\[([^\]]*)\]/);
+  if (wordsMatch) {
+    const literals: KeyLiteral[] = [];
+    const wordRegex = /\S+/g;
+    let wordMatch;
+    while ((wordMatch = wordRegex.exec(wordsMatch[1])) !== null) {
+      const wordStart = position + 3 + wordMatch.index;
+      literals.push({ key: wordMatch[0], start: wordStart, end: wordStart + wordMatch[0].length });
+    }
+    return { literals, end: position + wordsMatch[0].length };
+  }
+  
+  // [:a, "b"] 배열 (리터럴이 아닌 항목이 있으면 해석하지 않음)
+  if (text[position] !== '[') {
+    return undefined;
+  }
+  
+  const literals: KeyLiteral[] = [];
+  let index = position + 1;
+  while (index < text.length) {
+    const separator = text.substring(index).match(/^[\s,]*/)![0];
+    index += separator.length;
+    if (text[index] === ']') {
+      return literals.length > 0 ? { literals, end: index + 1 } : undefined;
+    }
+    
+    const item = readKeyLiteral(text, index);
+    if (!item) {
+      return undefined;
+    }
+    literals.push(item.literal);
+    index = item.end;
+  }
+  
+  return undefined;
+}
+
+/**
+ * 문자열 또는 심볼 키 리터럴 하나 읽기
+ */
+function readKeyLiteral(text: string, position: number): { literal: KeyLiteral, end: number } | undefined {
+  const rest = text.substring(position);
+  
+  // "key", 'key', :"key", :'key'
+  const quotedMatch = rest.match(/^(:?)(["'])([^"']+)\2/);
+  if (quotedMatch) {
+    const keyStart = position + quotedMatch[1].length + 1;
+    return {
+      literal: { key: quotedMatch[3], start: keyStart, end: keyStart + quotedMatch[3].length },
+      end: position + quotedMatch[0].length
+    };
+  }
+  
+  // :key
+  const symbolMatch = rest.match(/^:([A-Za-z_]\w*[?!]?)/);
+  if (symbolMatch) {
+    return {
+      literal: { key: symbolMatch[1], start: position + 1, end: position + symbolMatch[0].length },
+      end: position + symbolMatch[0].length
+    };
+  }
+  
+  return undefined;
+}
+
+/**
+ * scope 옵션 값을 점으로 구분된 범위로 변환 (리터럴이 아니면 동적 범위)
+ */
+function getScopeOption(args: string | undefined): string | undefined {
+  const scopeValue = parseCallOptions(args).options.get('scope');
+  if (scopeValue === undefined) {
+    return undefined;
+  }
+  
+  const scopeArgument = readKeyArgument(scopeValue, 0);
+  if (!scopeArgument || scopeArgument.end !== scopeValue.length) {
+    return '#{scope}';
+  }
+  
+  return scopeArgument.literals.map(literal => literal.key).join('.');
+}
+
+/**
+ * default 옵션 해석 (default: [:'a.c', 'Literal text'])
+ */
+function getDefaultOption(args: string | undefined, scope: string | undefined): I18nCallDefaults | undefined {
+  const defaultValue = parseCallOptions(args).options.get('default');
+  if (defaultValue === undefined) {
+    return undefined;
+  }
+  
+  const items = defaultValue.startsWith('[') && defaultValue.endsWith(']')
+    ? splitArguments(defaultValue.substring(1, defaultValue.length - 1))
+    : [defaultValue];
+  const defaults: I18nCallDefaults = { keys: [], isDynamic: false };
+  
+  for (const item of items) {
+    // 심볼은 같은 scope 안의 다른 키
+    const symbolMatch = item.match(/^:(["'])([^"']+)\1$/) || item.match(/^:()([A-Za-z_]\w*[?!]?)$/);
+    if (symbolMatch) {
+      defaults.keys.push(scope !== undefined ? `${scope}.${symbolMatch[2]}` : symbolMatch[2]);
+      continue;
+    }
+    
+    // 문자열은 그대로 사용되고 이후의 기본값은 무시됨
+    const textMatch = item.match(/^(["'])([\s\S]*)\1$/);
+    if (textMatch) {
+      defaults.text = textMatch[2];
+    } else {
+      defaults.isDynamic = true;
+    }
+    break;
+  }
+  
+  return defaults;
+}
+
+/**
+ * 최상위 쉼표로 인자 텍스트 분리
+ */
+export function splitArguments(args: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let partStart = 0;
+  
+  for (let index = 0; index < args.length; index++) {
+    const char = args[index];
+    if (quote) {
+      if (char === '\\') {
+        index++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(args.substring(partStart, index).trim());
+      partStart = index + 1;
+    }
+  }
+  
+  parts.push(args.substring(partStart).trim());
+  return parts.filter(part => part.length > 0);
+}
+
+/**
+ * 인자 텍스트에서 키워드 옵션 해석 (name: value, :name => value, "name" => value)
+ */
+export function parseCallOptions(args: string | undefined): I18nCallOptions {
+  const result: I18nCallOptions = { options: new Map<string, string>(), hasUnknownOptions: false };
+  if (!args) {
+    return result;
+  }
+  
+  for (const part of splitArguments(args)) {
+    // 중괄호로 감싼 해시 ({ name: value })
+    if (part.startsWith('{') && part.endsWith('}')) {
+      const inner = parseCallOptions(part.substring(1, part.length - 1));
+      inner.options.forEach((value, name) => result.options.set(name, value));
+      result.hasUnknownOptions = result.hasUnknownOptions || inner.hasUnknownOptions;
+      continue;
+    }
+    
+    const optionMatch = part.match(/^([A-Za-z_]\w*[?!]?):(?!:)\s*([\s\S]*)$/)
+      || part.match(/^["']([^"']+)["']:\s*([\s\S]*)$/)
+      || part.match(/^:([A-Za-z_]\w*)\s*=>\s*([\s\S]*)$/)
+      || part.match(/^["']([^"']+)["']\s*=>\s*([\s\S]*)$/);
+    if (optionMatch) {
+      result.options.set(optionMatch[1], optionMatch[2].trim());
+    } else {
+      // **options, 해시 변수 등은 어떤 옵션이 전달되는지 알 수 없음
+      result.hasUnknownOptions = true;
+    }
+  }
+  
+  return result;
+}
\ No newline at end of file
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { I18nLocalesScanner } from './i18nLocalesScanner';
+import { MISSING_KEY_CODE, MISSING_LOCALE_CODE } from './i18nDiagnostics';
+import { resolveLazyKey } from './i18nLazyLookup';
+import { getDocumentI18nCalls } from './i18nDocumentCalls';
+
+export class I18nCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+  
+  constructor(private localesScanner: I18nLocalesScanner) {}
+  
+  /**
+   * 누락된 키 진단에 대한 빠른 수정 제공
+   */
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+    token: vscode.CancellationToken
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== 'Rails I18n') {
+        continue;
+      }
+      
+      if (diagnostic.code !== MISSING_KEY_CODE && diagnostic.code !== MISSING_LOCALE_CODE) {
+        continue;
+      }
+      
+      const diagnosticKey = this.getDiagnosticKey(document, diagnostic);
+      if (!diagnosticKey) {
+        continue;
+      }
+      
+      // lazy lookup 키는 문서 경로 기준의 전체 키로 변환
+      const key = resolveLazyKey(
+        diagnosticKey,
+        document.fileName,
+        document.getText(),
+        document.offsetAt(diagnostic.range.start)
+      );
+      if (!key) {
+        continue;
+      }
+      
+      for (const lang of this.getMissingLanguages(key)) {
+        actions.push(this.createAddTranslationAction(key, lang, diagnostic));
+      }
+    }
+    
+    return actions;
+  }
+  
+  /**
+   * 진단 위치의 호출 키 (scope 옵션 포함, default_i18n_subject는 .subject 키)
+   */
+  private getDiagnosticKey(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): string | undefined {
+    const keyStart = document.offsetAt(diagnostic.range.start);
+    const call = getDocumentI18nCalls(document).find(call => call.keyStart === keyStart);
+    return call ? call.key : undefined;
+  }
+  
+  /**
+   * 키가 정의되지 않은 언어 목록
+   */
+  private getMissingLanguages(key: string): string[] {
+    const definedLangs = this.localesScanner.getKeyLocales(key);
+    return this.localesScanner.getLanguageCodes().filter(lang => !definedLangs.includes(lang));
+  }
+  
+  /**
+   * 번역 추가 빠른 수정 생성
+   */
+  private createAddTranslationAction(key: string, lang: string, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+    const action = new vscode.CodeAction(`"${key}" 번역 추가 (${lang})`, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.command = {
+      command: 'rails-i18n.addMissingTranslation',
+      title: '번역 추가',
+      arguments: [key, lang]
+    };
+    return action;
+  }
+}
\ No newline at end of file
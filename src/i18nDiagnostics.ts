@@ -0,0 +1,297 @@
+import * as vscode from 'vscode';
+import { I18nLocalesScanner } from './i18nLocalesScanner';
+import { I18nCall, parseCallOptions } from './i18nCallFinder';
+import { resolveLazyKey } from './i18nLazyLookup';
+import { I18nFallbacks } from './i18nFallbacks';
+import { getMissingPluralCategories } from './i18nPlural';
+import { hasSameVariables, RESERVED_OPTION_NAMES } from './i18nInterpolation';
+import { getDocumentI18nCalls } from './i18nDocumentCalls';
+
+/**
+ * 진단 코드 - 어떤 로케일에도 없는 키
+ */
+export const MISSING_KEY_CODE = 'missingKey';
+
+/**
+ * 진단 코드 - 일부 로케일에만 없는 키
+ */
+export const MISSING_LOCALE_CODE = 'missingLocale';
+
+/**
+ * 진단 코드 - 언어에 필요한 복수형 형태가 없는 키
+ */
+export const MISSING_PLURAL_CODE = 'missingPlural';
+
+/**
+ * 진단 코드 - 호출에서 전달하지 않은 보간 변수
+ */
+export const MISSING_VARIABLE_CODE = 'missingVariable';
+
+/**
+ * 진단 코드 - 로케일마다 다른 보간 변수
+ */
+export const VARIABLE_MISMATCH_CODE = 'variableMismatch';
+
+// 진단 대상 언어
+const DIAGNOSTIC_LANGUAGES = ['ruby', 'erb'];
+
+// 문서 변경 후 진단 갱신까지의 지연 시간 (ms)
+const UPDATE_DELAY = 300;
+
+export class I18nDiagnostics implements vscode.Disposable {
+  private diagnosticCollection: vscode.DiagnosticCollection;
+  private outputChannel: vscode.OutputChannel;
+  private debugMode: boolean = false;
+  private disposables: vscode.Disposable[] = [];
+  private pendingUpdates = new Map<string, NodeJS.Timeout>();
+  
+  constructor(
+    private localesScanner: I18nLocalesScanner,
+    outputChannel: vscode.OutputChannel,
+    private fallbacks: I18nFallbacks
+  ) {
+    this.outputChannel = outputChannel;
+    this.diagnosticCollection = vscode.languages.createDiagnosticCollection('rails-i18n');
+    this.updateDebugMode();
+    
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => this.updateDocument(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleUpdate(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.clearDocument(document)),
+      this.localesScanner.onDidUpdateEntries(() => this.updateAllDocuments()),
+      this.fallbacks.onDidChangeFallbacks(() => this.updateAllDocuments())
+    );
+  }
+  
+  /**
+   * 디버그 모드 설정 업데이트
+   */
+  private updateDebugMode(): void {
+    const config = vscode.workspace.getConfiguration('rails-i18n');
+    this.debugMode = config.get('debugMode') || false;
+  }
+  
+  /**
+   * 로그 출력
+   */
+  private log(message: string, force: boolean = false): void {
+    if (force || this.debugMode) {
+      console.log(message);
+      this.outputChannel.appendLine(message);
+    }
+  }
+  
+  /**
+   * 열려 있는 모든 문서의 진단 갱신
+   */
+  public updateAllDocuments(): void {
+    this.updateDebugMode();
+    vscode.workspace.textDocuments.forEach(document => this.updateDocument(document));
+  }
+  
+  /**
+   * 입력 중에는 일정 시간 후에 진단 갱신
+   */
+  private scheduleUpdate(document: vscode.TextDocument): void {
+    if (!DIAGNOSTIC_LANGUAGES.includes(document.languageId)) {
+      return;
+    }
+    
+    const uri = document.uri.toString();
+    const pending = this.pendingUpdates.get(uri);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    
+    this.pendingUpdates.set(uri, setTimeout(() => {
+      this.pendingUpdates.delete(uri);
+      this.updateDocument(document);
+    }, UPDATE_DELAY));
+  }
+  
+  /**
+   * 문서 하나의 진단 갱신
+   */
+  public updateDocument(document: vscode.TextDocument): void {
+    if (!DIAGNOSTIC_LANGUAGES.includes(document.languageId)) {
+      return;
+    }
+    
+    // 아직 스캔되지 않았으면 모든 키가 누락으로 표시되므로 건너뜀
+    if (this.localesScanner.getKeyCount() === 0) {
+      this.diagnosticCollection.delete(document.uri);
+      return;
+    }
+    
+    const languageCodes = this.localesScanner.getLanguageCodes();
+    const diagnostics: vscode.Diagnostic[] = [];
+    const text = document.getText();
+    
+    for (const call of getDocumentI18nCalls(document)) {
+      diagnostics.push(...this.createDiagnostics(document, text, call, languageCodes));
+    }
+    
+    this.log(`진단: ${document.fileName} - ${diagnostics.length}개 문제 발견`, this.debugMode);
+    this.diagnosticCollection.set(document.uri, diagnostics);
+  }
+  
+  /**
+   * I18n 호출 하나에 대한 진단 생성
+   */
+  private createDiagnostics(
+    document: vscode.TextDocument,
+    text: string,
+    call: I18nCall,
+    languageCodes: string[]
+  ): vscode.Diagnostic[] {
+    // 동적 키는 실제 키를 알 수 없으므로 검사하지 않음
+    if (call.key.includes('#{')) {
+      return [];
+    }
+    
+    // lazy lookup 범위를 알 수 없는 파일이면 검사하지 않음
+    const key = resolveLazyKey(call.key, document.fileName, text, call.start);
+    if (!key) {
+      return [];
+    }
+    
+    const range = new vscode.Range(document.positionAt(call.keyStart), document.positionAt(call.keyEnd));
+    
+    // default 옵션의 키도 차례로 찾고, 문자열이나 해석할 수 없는 기본값이 있으면 항상 값이 있음
+    const defaults = call.defaults;
+    const candidateKeys = defaults ? [key, ...defaults.keys] : [key];
+    const hasDefaultValue = defaults !== undefined && (defaults.text !== undefined || defaults.isDynamic);
+    
+    if (!candidateKeys.some(candidateKey => this.localesScanner.hasKey(candidateKey))) {
+      if (hasDefaultValue) {
+        return [];
+      }
+      
+      const defaultInfo = candidateKeys.length > 1 ? ` (default: ${candidateKeys.slice(1).join(', ')})` : '';
+      return [this.createKeyDiagnostic(
+        range,
+        `I18n 키 "${key}"에 대한 번역을 찾을 수 없습니다.${defaultInfo}`,
+        vscode.DiagnosticSeverity.Warning,
+        MISSING_KEY_CODE
+      )];
+    }
+    
+    const diagnostics: vscode.Diagnostic[] = [];
+    
+    // 폴백이나 default로 번역이 제공되는 로케일은 누락으로 보지 않음
+    const missingLocales = hasDefaultValue
+      ? []
+      : languageCodes.filter(lang => !this.fallbacks.resolveCandidates(candidateKeys, lang));
+    if (missingLocales.length > 0) {
+      diagnostics.push(this.createKeyDiagnostic(
+        range,
+        `I18n 키 "${key}"가 다음 로케일에 없습니다: ${missingLocales.join(', ')}`,
+        vscode.DiagnosticSeverity.Information,
+        MISSING_LOCALE_CODE
+      ));
+    }
+    
+    // 복수형 키는 언어별로 필요한 CLDR 복수형 형태가 모두 있는지 확인
+    const missingPlurals = this.localesScanner.getEntriesForKey(key)
+      .filter(entry => entry.lang && entry.plurals)
+      .map(entry => ({ lang: entry.lang!, categories: getMissingPluralCategories(entry.lang!, entry.plurals!) }))
+      .filter(missing => missing.categories.length > 0);
+    if (missingPlurals.length > 0) {
+      const details = missingPlurals.map(missing => `${missing.lang} (${missing.categories.join(', ')})`);
+      diagnostics.push(this.createKeyDiagnostic(
+        range,
+        `I18n 키 "${key}"에 다음 로케일의 복수형 형태가 없습니다: ${details.join(', ')}`,
+        vscode.DiagnosticSeverity.Warning,
+        MISSING_PLURAL_CODE
+      ));
+    }
+    
+    diagnostics.push(...this.createVariableDiagnostics(key, call, range));
+    
+    return diagnostics;
+  }
+  
+  /**
+   * 보간 변수 전달 여부와 로케일 간 보간 변수 일치 여부 진단
+   */
+  private createVariableDiagnostics(key: string, call: I18nCall, range: vscode.Range): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    const entries = this.localesScanner.getEntriesForKey(key).filter(entry => entry.lang && entry.variables);
+    
+    // 인자가 다음 줄로 이어지거나 **options처럼 알 수 없는 옵션이 있으면 검사하지 않음
+    const callOptions = parseCallOptions(call.args);
+    if (!call.hasOpenArgs && !callOptions.hasUnknownOptions) {
+      const required = new Set<string>();
+      entries.forEach(entry => {
+        entry.variables!.forEach(variable => required.add(variable));
+        // 복수형 키는 count로 형태를 고르므로 항상 필요
+        if (entry.plurals) {
+          required.add('count');
+        }
+      });
+      
+      const missingVariables = Array.from(required)
+        .filter(variable => !RESERVED_OPTION_NAMES.includes(variable) && !callOptions.options.has(variable));
+      if (missingVariables.length > 0) {
+        diagnostics.push(this.createKeyDiagnostic(
+          range,
+          `I18n 키 "${key}"에 필요한 보간 변수가 전달되지 않았습니다: ${missingVariables.join(', ')}`,
+          vscode.DiagnosticSeverity.Warning,
+          MISSING_VARIABLE_CODE
+        ));
+      }
+    }
+    
+    // 로케일마다 보간 변수가 다르면 번역 실수일 가능성이 높음
+    const hasMismatch = entries.some(entry => !hasSameVariables(entry.variables!, entries[0].variables!));
+    if (hasMismatch) {
+      const details = entries.map(entry => `${entry.lang} (${entry.variables!.join(', ') || '없음'})`);
+      diagnostics.push(this.createKeyDiagnostic(
+        range,
+        `I18n 키 "${key}"의 보간 변수가 로케일마다 다릅니다: ${details.join(', ')}`,
+        vscode.DiagnosticSeverity.Information,
+        VARIABLE_MISMATCH_CODE
+      ));
+    }
+    
+    return diagnostics;
+  }
+  
+  /**
+   * 키 범위에 대한 진단 생성
+   */
+  private createKeyDiagnostic(
+    range: vscode.Range,
+    message: string,
+    severity: vscode.DiagnosticSeverity,
+    code: string
+  ): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(range, message, severity);
+    diagnostic.source = 'Rails I18n';
+    diagnostic.code = code;
+    return diagnostic;
+  }
+  
+  /**
+   * 닫힌 문서의 진단 제거
+   */
+  private clearDocument(document: vscode.TextDocument): void {
+    const uri = document.uri.toString();
+    const pending = this.pendingUpdates.get(uri);
+    if (pending) {
+      clearTimeout(pending);
+      this.pendingUpdates.delete(uri);
+    }
+    this.diagnosticCollection.delete(document.uri);
+  }
+  
+  /**
+   * 리소스 해제
+   */
+  public dispose(): void {
+    this.pendingUpdates.forEach(pending => clearTimeout(pending));
+    this.pendingUpdates.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.diagnosticCollection.dispose();
+  }
+}
\ No newline at end of file
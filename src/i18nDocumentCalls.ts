@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+import { findAllI18nCalls, I18nCall } from './i18nCallFinder';
+
+// 문서별 I18n 호출 캐시 (문서 버전이 바뀌면 다시 분석)
+const callCache = new WeakMap<vscode.TextDocument, { version: number, calls: I18nCall[] }>();
+
+/**
+ * ERB 템플릿 문서인지 확인
+ */
+export function isErbDocument(document: vscode.TextDocument): boolean {
+  return document.languageId === 'erb' || document.fileName.endsWith('.erb');
+}
+
+/**
+ * 문서의 모든 I18n 호출 (호버, 자동 완성, 정의로 이동, 진단이 함께 사용)
+ */
+export function getDocumentI18nCalls(document: vscode.TextDocument): I18nCall[] {
+  const cached = callCache.get(document);
+  if (cached && cached.version === document.version) {
+    return cached.calls;
+  }
+  
+  const calls = findAllI18nCalls(document.getText(), isErbDocument(document));
+  callCache.set(document, { version: document.version, calls });
+  return calls;
+}
\ No newline at end of file
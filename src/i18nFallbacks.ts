@@ -0,0 +1,527 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { I18nEntry, I18nLocalesScanner } from './i18nLocalesScanner';
+import { getLocaleWithParents, isLocaleCode, normalizeLocaleCode } from './i18nLocale';
+
+/**
+ * I18n 폴백 설정 (config.i18n.fallbacks)
+ */
+export interface I18nFallbackConfig {
+  defaults: string[]; // 모든 로케일이 마지막으로 사용하는 로케일 (예: ['en'])
+  map: { [locale: string]: string[] }; // 로케일별 폴백 (예: { 'pt-BR': ['pt', 'en'] })
+}
+
+// 폴백 설정을 읽을 Rails 설정 파일 (뒤의 파일이 앞의 설정을 덮어씀)
+const RAILS_CONFIG_FILES = ['config/application.rb', 'config/environments/production.rb'];
+const RAILS_INITIALIZERS_DIR = 'config/initializers';
+
+// Rails 설정 파일 감시 패턴
+const RAILS_CONFIG_PATTERN = 'config/{application.rb,environments/production.rb,initializers/*.rb}';
+
+// Rails의 기본 로케일
+const RAILS_DEFAULT_LOCALE = 'en';
+
+// I18n.default_locale을 가리키는 값
+const DEFAULT_LOCALE_MARKER = Symbol('default_locale');
+
+type RubyValue = string | boolean | null | typeof DEFAULT_LOCALE_MARKER | RubyValue[] | RubyHash | undefined;
+
+interface RubyHash {
+  [key: string]: RubyValue;
+}
+
+interface RubyToken {
+  type: 'punct' | 'label' | 'string' | 'list' | 'word';
+  value: string;
+  items?: string[]; // %i[], %w[] 목록의 항목
+}
+
+// Ruby 리터럴 토큰 패턴 (순서대로 검사)
+const TOKEN_PATTERNS: Array<{ type: RubyToken['type'], pattern: RegExp }> = [
+  { type: 'punct', pattern: /^(=>|[\[\]{}(),])/ },
+  { type: 'list', pattern: /^%[iwIW]\[([^\]]*)\]/ },
+  { type: 'label', pattern: /^"([^"]*)":(?!:)/ },
+  { type: 'label', pattern: /^'([^']*)':(?!:)/ },
+  { type: 'label', pattern: /^([A-Za-z_][\w-]*):(?!:)/ },
+  { type: 'string', pattern: /^:"([^"]*)"/ },
+  { type: 'string', pattern: /^:'([^']*)'/ },
+  { type: 'string', pattern: /^:([A-Za-z_][\w-]*)/ },
+  { type: 'string', pattern: /^"([^"]*)"/ },
+  { type: 'string', pattern: /^'([^']*)'/ },
+  { type: 'word', pattern: /^([A-Za-z_]\w*(?:(?:\.|::)[A-Za-z_]\w*)*[?!]?)/ }
+];
+
+/**
+ * Rails 설정 파일의 I18n 폴백 설정 해석
+ * (config.i18n.fallbacks, config.i18n.default_locale, I18n.fallbacks 등)
+ */
+export function parseRailsFallbackConfig(sources: string[]): { defaultLocale: string, fallbacks?: I18nFallbackConfig } {
+  let defaultLocale = RAILS_DEFAULT_LOCALE;
+  let fallbacks: RubyValue;
+  let defaults: RubyValue;
+  let map: RubyValue;
+  
+  for (const source of sources) {
+    for (const assignment of findI18nAssignments(source)) {
+      const value = parseRubyValue(assignment.expression);
+      switch (assignment.name) {
+        case 'default_locale':
+          if (typeof value === 'string') {
+            defaultLocale = normalizeLocaleCode(value);
+          }
+          break;
+        case 'fallbacks':
+          fallbacks = value;
+          defaults = undefined;
+          map = undefined;
+          break;
+        case 'fallbacks.defaults':
+          defaults = value;
+          break;
+        case 'fallbacks.map':
+          map = value;
+          break;
+      }
+    }
+  }
+  
+  const resolveDefault = (value: RubyValue): RubyValue => value === DEFAULT_LOCALE_MARKER ? defaultLocale : value;
+  const config: I18nFallbackConfig = { defaults: [], map: {} };
+  
+  if (fallbacks === true) {
+    // fallbacks = true 이면 기본 로케일로 폴백
+    config.defaults.push(defaultLocale);
+  } else if (Array.isArray(fallbacks)) {
+    // fallbacks = [:en, { de: :fr }]
+    fallbacks.forEach(item => {
+      if (isRubyHash(item)) {
+        addFallbackMap(config, item, resolveDefault);
+      } else {
+        config.defaults.push(...toLocaleList(resolveDefault(item)));
+      }
+    });
+  } else if (isRubyHash(fallbacks)) {
+    addFallbackMap(config, fallbacks, resolveDefault);
+  } else if (fallbacks !== undefined && fallbacks !== false && fallbacks !== null) {
+    config.defaults.push(...toLocaleList(resolveDefault(fallbacks)));
+  }
+  
+  // fallbacks.defaults = [...], fallbacks.map = {...}
+  if (Array.isArray(defaults)) {
+    config.defaults.push(...defaults.flatMap(item => toLocaleList(resolveDefault(item))));
+  }
+  if (isRubyHash(map)) {
+    addFallbackMap(config, map, resolveDefault);
+  }
+  
+  const isEnabled = config.defaults.length > 0 || Object.keys(config.map).length > 0;
+  return { defaultLocale, fallbacks: isEnabled ? config : undefined };
+}
+
+/**
+ * 폴백 해시를 설정에 추가
+ */
+function addFallbackMap(config: I18nFallbackConfig, hash: RubyHash, resolveDefault: (value: RubyValue) => RubyValue): void {
+  Object.keys(hash).forEach(locale => {
+    if (isLocaleCode(locale)) {
+      const value = hash[locale];
+      const fallbackLocales: RubyValue[] = Array.isArray(value) ? value : [value];
+      config.map[normalizeLocaleCode(locale)] = fallbackLocales.flatMap(item => toLocaleList(resolveDefault(item)));
+    }
+  });
+}
+
+/**
+ * Ruby 값을 로케일 목록으로 변환
+ */
+function toLocaleList(value: RubyValue): string[] {
+  if (typeof value === 'string') {
+    return isLocaleCode(value) ? [normalizeLocaleCode(value)] : [];
+  }
+  return Array.isArray(value) ? value.flatMap(toLocaleList) : [];
+}
+
+/**
+ * Ruby 해시 값인지 확인
+ */
+function isRubyHash(value: RubyValue): value is RubyHash {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 주석이 아닌 I18n 설정 대입문 찾기
+ */
+function findI18nAssignments(source: string): Array<{ name: string, expression: string }> {
+  const assignments: Array<{ name: string, expression: string }> = [];
+  const pattern = /(?:config\.i18n|I18n)\.(default_locale|fallbacks(?:\.defaults|\.map)?)\s*=(?![=~])/g;
+  let match: RegExpExecArray | null;
+  
+  while ((match = pattern.exec(source)) !== null) {
+    const lineStart = source.lastIndexOf('\n', match.index) + 1;
+    if (source.substring(lineStart, match.index).includes('#')) {
+      continue;
+    }
+    
+    assignments.push({ name: match[1], expression: readExpression(source, pattern.lastIndex) });
+  }
+  
+  return assignments;
+}
+
+/**
+ * 대입문의 오른쪽 식 읽기 (괄호가 닫히지 않았으면 다음 줄까지)
+ */
+function readExpression(source: string, start: number): string {
+  let depth = 0;
+  let index = start;
+  
+  for (; index < source.length; index++) {
+    const char = source[index];
+    if (char === '[' || char === '{' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === '}' || char === ')') {
+      depth--;
+    } else if ((char === '\n' && depth <= 0) || (char === '#' && depth <= 0)) {
+      break;
+    }
+  }
+  
+  return source.substring(start, index);
+}
+
+/**
+ * Ruby 리터럴 토큰으로 분리
+ */
+function tokenizeRuby(expression: string): RubyToken[] {
+  const tokens: RubyToken[] = [];
+  let rest = expression;
+  
+  while (rest.length > 0) {
+    const whitespace = rest.match(/^(\s+|#[^\n]*)/);
+    if (whitespace) {
+      rest = rest.substring(whitespace[0].length);
+      continue;
+    }
+    
+    const matched = TOKEN_PATTERNS.find(({ pattern }) => pattern.test(rest));
+    if (!matched) {
+      // 해석할 수 없는 문자는 건너뜀
+      tokens.push({ type: 'word', value: rest[0] });
+      rest = rest.substring(1);
+      continue;
+    }
+    
+    const match = rest.match(matched.pattern)!;
+    const token: RubyToken = { type: matched.type, value: match[1] };
+    if (matched.type === 'list') {
+      token.items = match[1].split(/\s+/).filter(item => item.length > 0);
+    }
+    tokens.push(token);
+    rest = rest.substring(match[0].length);
+  }
+  
+  return tokens;
+}
+
+/**
+ * Ruby 리터럴 식 해석 (배열, 해시, 심볼, 문자열, true/false/nil)
+ */
+function parseRubyValue(expression: string): RubyValue {
+  const tokens = tokenizeRuby(expression);
+  let position = 0;
+  
+  const peek = () => tokens[position];
+  const isPunct = (value: string) => peek() !== undefined && peek().type === 'punct' && peek().value === value;
+  
+  const parseHashItems = (hash: RubyHash, closing: string) => {
+    while (peek() && !isPunct(closing)) {
+      if (isPunct(',')) {
+        position++;
+        continue;
+      }
+      
+      let key: RubyValue;
+      if (peek().type === 'label') {
+        key = tokens[position++].value;
+      } else {
+        key = parseValue();
+        if (!isPunct('=>')) {
+          return;
+        }
+        position++;
+      }
+      
+      const value = parseValue();
+      if (typeof key === 'string') {
+        hash[key] = value;
+      }
+    }
+  };
+  
+  const parseValue = (): RubyValue => {
+    const token = tokens[position++];
+    if (!token) {
+      return undefined;
+    }
+    
+    if (token.type === 'string') {
+      return token.value;
+    }
+    
+    if (token.type === 'list') {
+      return token.items!;
+    }
+    
+    if (token.type === 'punct' && token.value === '[') {
+      const items: RubyValue[] = [];
+      while (peek() && !isPunct(']')) {
+        if (isPunct(',')) {
+          position++;
+          continue;
+        }
+        
+        // 배열 안의 괄호 없는 해시 ([:en, de: :fr])
+        if (peek().type === 'label' || (tokens[position + 1] && tokens[position + 1].value === '=>')) {
+          const hash: RubyHash = {};
+          parseHashItems(hash, ']');
+          items.push(hash);
+          continue;
+        }
+        
+        items.push(parseValue());
+      }
+      position++;
+      return items;
+    }
+    
+    if (token.type === 'punct' && token.value === '{') {
+      const hash: RubyHash = {};
+      parseHashItems(hash, '}');
+      position++;
+      return hash;
+    }
+    
+    if (token.type === 'word') {
+      if (token.value === 'true' || token.value === 'false') {
+        return token.value === 'true';
+      }
+      if (token.value === 'nil') {
+        return null;
+      }
+      if (/(?:^|\.)default_locale$/.test(token.value)) {
+        return DEFAULT_LOCALE_MARKER;
+      }
+    }
+    
+    return undefined;
+  };
+  
+  return parseValue();
+}
+
+export class I18nFallbacks implements vscode.Disposable {
+  private outputChannel: vscode.OutputChannel;
+  private defaultLocale = RAILS_DEFAULT_LOCALE;
+  private config: I18nFallbackConfig | undefined;
+  private chains = new Map<string, string[]>();
+  private fileWatchers: vscode.FileSystemWatcher[] = [];
+  private disposables: vscode.Disposable[] = [];
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  
+  /**
+   * 폴백 설정이 바뀌었을 때 발생하는 이벤트
+   */
+  public readonly onDidChangeFallbacks: vscode.Event<void> = this.changeEmitter.event;
+  
+  constructor(private localesScanner: I18nLocalesScanner, outputChannel: vscode.OutputChannel) {
+    this.outputChannel = outputChannel;
+    
+    this.loadFallbacks();
+    this.createFileWatchers();
+    
+    this.disposables.push(
+      this.changeEmitter,
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('rails-i18n.fallbacks')) {
+          this.reloadFallbacks();
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        this.createFileWatchers();
+        this.reloadFallbacks();
+      })
+    );
+  }
+  
+  /**
+   * 로그 출력
+   */
+  private log(message: string): void {
+    console.log(message);
+    this.outputChannel.appendLine(message);
+  }
+  
+  /**
+   * Rails 설정 파일 감시자 생성
+   */
+  private createFileWatchers(): void {
+    this.fileWatchers.forEach(watcher => watcher.dispose());
+    this.fileWatchers = [];
+    
+    for (const workspaceFolder of vscode.workspace.workspaceFolders || []) {
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceFolder, RAILS_CONFIG_PATTERN));
+      watcher.onDidCreate(() => this.reloadFallbacks());
+      watcher.onDidChange(() => this.reloadFallbacks());
+      watcher.onDidDelete(() => this.reloadFallbacks());
+      this.fileWatchers.push(watcher);
+    }
+  }
+  
+  /**
+   * 폴백 설정을 다시 읽고 변경 이벤트 발생
+   */
+  private reloadFallbacks(): void {
+    this.loadFallbacks();
+    this.changeEmitter.fire();
+  }
+  
+  /**
+   * 설정 또는 Rails 설정 파일에서 폴백 설정 읽기
+   */
+  public loadFallbacks(): void {
+    this.chains.clear();
+    
+    const railsConfig = parseRailsFallbackConfig(this.readRailsConfigFiles());
+    this.defaultLocale = railsConfig.defaultLocale;
+    this.config = railsConfig.fallbacks;
+    
+    // 확장 설정이 있으면 Rails 설정 대신 사용
+    const setting = vscode.workspace.getConfiguration('rails-i18n').get<{ defaults?: string[], map?: { [locale: string]: string | string[] } } | null>('fallbacks');
+    if (setting) {
+      this.config = { defaults: toLocaleList(setting.defaults || []), map: {} };
+      const map = setting.map || {};
+      Object.keys(map).forEach(locale => {
+        this.config!.map[normalizeLocaleCode(locale)] = toLocaleList(map[locale]);
+      });
+    }
+    
+    if (this.config) {
+      this.log(`I18n 폴백 설정: 기본 [${this.config.defaults.join(', ')}], 로케일별 ${JSON.stringify(this.config.map)}`);
+    }
+  }
+  
+  /**
+   * 워크스페이스의 Rails 설정 파일 내용 읽기
+   */
+  private readRailsConfigFiles(): string[] {
+    const sources: string[] = [];
+    
+    for (const workspaceFolder of vscode.workspace.workspaceFolders || []) {
+      const rootPath = workspaceFolder.uri.fsPath;
+      const initializersPath = path.join(rootPath, RAILS_INITIALIZERS_DIR);
+      const initializers = fs.existsSync(initializersPath)
+        ? fs.readdirSync(initializersPath).filter(file => file.endsWith('.rb')).sort().map(file => path.join(RAILS_INITIALIZERS_DIR, file))
+        : [];
+      
+      for (const configFile of [...RAILS_CONFIG_FILES, ...initializers]) {
+        const filePath = path.join(rootPath, configFile);
+        try {
+          if (fs.existsSync(filePath)) {
+            sources.push(fs.readFileSync(filePath, 'utf8'));
+          }
+        } catch (error) {
+          console.error(`Rails 설정 파일 읽기 오류: ${filePath}`, error);
+        }
+      }
+    }
+    
+    return sources;
+  }
+  
+  /**
+   * 폴백이 설정되어 있는지 확인
+   */
+  public isEnabled(): boolean {
+    return this.config !== undefined;
+  }
+  
+  /**
+   * Rails 기본 로케일 (config.i18n.default_locale)
+   */
+  public getDefaultLocale(): string {
+    return this.defaultLocale;
+  }
+  
+  /**
+   * 로케일의 폴백 순서 (자신 포함, 예: pt-BR -> pt-BR, pt, en)
+   */
+  public getFallbackChain(locale: string): string[] {
+    if (!this.config) {
+      return [locale];
+    }
+    
+    let chain = this.chains.get(locale);
+    if (!chain) {
+      chain = this.computeChain(this.config, [locale], true, []);
+      this.chains.set(locale, chain);
+    }
+    
+    return chain;
+  }
+  
+  /**
+   * Rails(I18n::Locale::Fallbacks)와 같은 방식으로 폴백 순서 계산
+   */
+  private computeChain(config: I18nFallbackConfig, locales: string[], includeDefaults: boolean, exclude: string[]): string[] {
+    const result: string[] = [];
+    
+    for (const locale of locales) {
+      const tags = getLocaleWithParents(locale).filter(tag => !exclude.includes(tag));
+      for (const tag of [...tags]) {
+        if (config.map[tag]) {
+          tags.push(...this.computeChain(config, config.map[tag], false, [...exclude, ...tags]));
+        }
+      }
+      result.push(...tags);
+    }
+    
+    if (includeDefaults) {
+      config.defaults.forEach(locale => result.push(...getLocaleWithParents(locale)));
+    }
+    
+    return Array.from(new Set(result));
+  }
+  
+  /**
+   * 런타임에 실제로 사용되는 항목 (로케일에 없으면 폴백 순서대로 검색)
+   */
+  public resolveEntry(key: string, locale: string): I18nEntry | undefined {
+    return this.resolveCandidates([key], locale);
+  }
+  
+  /**
+   * 여러 후보 키 (키와 default 키) 중 런타임에 사용되는 항목
+   * (Rails와 같이 로케일마다 모든 후보를 찾은 다음 폴백 로케일로 넘어감)
+   */
+  public resolveCandidates(keys: string[], locale: string): I18nEntry | undefined {
+    for (const fallbackLocale of this.getFallbackChain(locale)) {
+      for (const key of keys) {
+        const entry = this.localesScanner.getEntry(key, fallbackLocale);
+        if (entry) {
+          return entry;
+        }
+      }
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * 리소스 해제
+   */
+  public dispose(): void {
+    this.fileWatchers.forEach(watcher => watcher.dispose());
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
\ No newline at end of file
@@ -0,0 +1,256 @@
+import * as vscode from 'vscode';
+import { I18nLocalesScanner } from './i18nLocalesScanner';
+import { I18nCall } from './i18nCallFinder';
+import { I18nFallbacks } from './i18nFallbacks';
+import { resolveLazyKey } from './i18nLazyLookup';
+import { getDocumentI18nCalls } from './i18nDocumentCalls';
+
+// 미리보기 대상 언어
+const PREVIEW_LANGUAGES = ['ruby', 'erb'];
+
+// 문서 변경 후 미리보기 갱신까지의 지연 시간 (ms)
+const UPDATE_DELAY = 300;
+
+// 미리보기 값의 기본 최대 길이
+const DEFAULT_MAX_LENGTH = 40;
+
+/**
+ * 호출 하나의 미리보기 내용
+ */
+interface InlinePreview {
+  text: string;
+  isMissing: boolean; // 번역이 없는 키인지 여부
+}
+
+export class I18nInlinePreview implements vscode.Disposable {
+  private outputChannel: vscode.OutputChannel;
+  private debugMode: boolean = false;
+  private disposables: vscode.Disposable[] = [];
+  private pendingUpdates = new Map<string, NodeJS.Timeout>();
+  private valueDecorationType: vscode.TextEditorDecorationType;
+  private missingDecorationType: vscode.TextEditorDecorationType;
+  
+  constructor(
+    private localesScanner: I18nLocalesScanner,
+    outputChannel: vscode.OutputChannel,
+    private fallbacks: I18nFallbacks
+  ) {
+    this.outputChannel = outputChannel;
+    this.updateDebugMode();
+    
+    this.valueDecorationType = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor('editorCodeLens.foreground'),
+        fontStyle: 'italic',
+        margin: '0 0 0 1em'
+      }
+    });
+    this.missingDecorationType = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor('editorWarning.foreground'),
+        fontStyle: 'italic',
+        margin: '0 0 0 1em'
+      }
+    });
+    
+    this.disposables.push(
+      this.valueDecorationType,
+      this.missingDecorationType,
+      vscode.window.onDidChangeVisibleTextEditors(() => this.updateAllEditors()),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleUpdate(event.document)),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('rails-i18n.inlinePreview')) {
+          this.updateAllEditors();
+        }
+      }),
+      this.localesScanner.onDidUpdateEntries(() => this.updateAllEditors()),
+      this.fallbacks.onDidChangeFallbacks(() => this.updateAllEditors())
+    );
+    
+    this.updateAllEditors();
+  }
+  
+  /**
+   * 디버그 모드 설정 업데이트
+   */
+  private updateDebugMode(): void {
+    const config = vscode.workspace.getConfiguration('rails-i18n');
+    this.debugMode = config.get('debugMode') || false;
+  }
+  
+  /**
+   * 로그 출력
+   */
+  private log(message: string, force: boolean = false): void {
+    if (force || this.debugMode) {
+      console.log(message);
+      this.outputChannel.appendLine(message);
+    }
+  }
+  
+  /**
+   * 미리보기 표시 설정 전환 (현재 값을 정의한 범위의 설정 변경, 정의한 곳이 없으면 사용자 설정)
+   */
+  public async toggle(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('rails-i18n');
+    const enabled = !config.get<boolean>('inlinePreview.enabled', true);
+    await config.update('inlinePreview.enabled', enabled, getDefiningTarget(config.inspect<boolean>('inlinePreview.enabled')));
+    
+    this.log(`인라인 번역 미리보기 ${enabled ? '켜짐' : '꺼짐'}`, true);
+  }
+  
+  /**
+   * 보이는 모든 편집기의 미리보기 갱신
+   */
+  public updateAllEditors(): void {
+    this.updateDebugMode();
+    vscode.window.visibleTextEditors.forEach(editor => this.updateEditor(editor));
+  }
+  
+  /**
+   * 입력 중에는 일정 시간 후에 미리보기 갱신
+   */
+  private scheduleUpdate(document: vscode.TextDocument): void {
+    if (!PREVIEW_LANGUAGES.includes(document.languageId)) {
+      return;
+    }
+    
+    const uri = document.uri.toString();
+    const pending = this.pendingUpdates.get(uri);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    
+    this.pendingUpdates.set(uri, setTimeout(() => {
+      this.pendingUpdates.delete(uri);
+      vscode.window.visibleTextEditors
+        .filter(editor => editor.document === document)
+        .forEach(editor => this.updateEditor(editor));
+    }, UPDATE_DELAY));
+  }
+  
+  /**
+   * 편집기 하나의 미리보기 갱신 (호출 끝에 표시 로케일의 번역 값 표시)
+   */
+  private updateEditor(editor: vscode.TextEditor): void {
+    const document = editor.document;
+    if (!PREVIEW_LANGUAGES.includes(document.languageId)) {
+      return;
+    }
+    
+    const config = vscode.workspace.getConfiguration('rails-i18n');
+    const locale = this.getDisplayLocale(config.get<string>('inlinePreview.locale', ''));
+    
+    // 꺼져 있거나 아직 스캔되지 않았으면 미리보기 제거
+    if (!config.get<boolean>('inlinePreview.enabled', true) || !locale) {
+      editor.setDecorations(this.valueDecorationType, []);
+      editor.setDecorations(this.missingDecorationType, []);
+      return;
+    }
+    
+    const maxLength = config.get<number>('inlinePreview.maxLength', DEFAULT_MAX_LENGTH);
+    const text = document.getText();
+    const valueDecorations: vscode.DecorationOptions[] = [];
+    const missingDecorations: vscode.DecorationOptions[] = [];
+    
+    for (const call of getDocumentI18nCalls(document)) {
+      const preview = this.createPreview(document, text, call, locale, maxLength);
+      if (!preview) {
+        continue;
+      }
+      
+      const position = document.positionAt(call.end);
+      const decoration: vscode.DecorationOptions = {
+        range: new vscode.Range(position, position),
+        renderOptions: { after: { contentText: preview.text } }
+      };
+      (preview.isMissing ? missingDecorations : valueDecorations).push(decoration);
+    }
+    
+    editor.setDecorations(this.valueDecorationType, valueDecorations);
+    editor.setDecorations(this.missingDecorationType, missingDecorations);
+    this.log(`인라인 미리보기: ${document.fileName} - ${valueDecorations.length}개, 누락 ${missingDecorations.length}개`, this.debugMode);
+  }
+  
+  /**
+   * 미리보기에 사용할 로케일 (설정이 없거나 감지되지 않은 언어면 기본 로케일, 스캔 전이면 undefined)
+   */
+  private getDisplayLocale(configuredLocale: string): string | undefined {
+    const languageCodes = this.localesScanner.getLanguageCodes();
+    if (languageCodes.length === 0) {
+      return undefined;
+    }
+    
+    if (configuredLocale && languageCodes.includes(configuredLocale)) {
+      return configuredLocale;
+    }
+    
+    const defaultLocale = this.fallbacks.getDefaultLocale();
+    return languageCodes.includes(defaultLocale) ? defaultLocale : languageCodes[0];
+  }
+  
+  /**
+   * 호출 하나의 미리보기 (동적 키나 범위를 알 수 없는 lazy lookup 키는 undefined)
+   */
+  private createPreview(
+    document: vscode.TextDocument,
+    text: string,
+    call: I18nCall,
+    locale: string,
+    maxLength: number
+  ): InlinePreview | undefined {
+    if (call.key.includes('#{')) {
+      return undefined;
+    }
+    
+    const key = resolveLazyKey(call.key, document.fileName, text, call.start);
+    if (!key) {
+      return undefined;
+    }
+    
+    // default 옵션의 키까지 폴백 순서대로 찾기
+    const defaults = call.defaults;
+    const entry = this.fallbacks.resolveCandidates(defaults ? [key, ...defaults.keys] : [key], locale);
+    if (entry) {
+      const fallbackInfo = entry.lang && entry.lang !== locale ? ` (${entry.lang})` : '';
+      return { text: `→ ${truncate(entry.value, maxLength)}${fallbackInfo}`, isMissing: false };
+    }
+    
+    if (defaults && defaults.text !== undefined) {
+      return { text: `→ ${truncate(defaults.text, maxLength)} (default)`, isMissing: false };
+    }
+    
+    // 해시를 반환하는 네임스페이스 키나 해석할 수 없는 기본값은 표시하지 않음
+    if ((defaults && defaults.isDynamic) || this.localesScanner.listChildKeys(key).length > 0) {
+      return undefined;
+    }
+    
+    return { text: `⚠ ${locale} 번역 없음`, isMissing: true };
+  }
+  
+  /**
+   * 리소스 해제
+   */
+  public dispose(): void {
+    this.pendingUpdates.forEach(pending => clearTimeout(pending));
+    this.pendingUpdates.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
+
+/**
+ * 한 줄로 줄이고 최대 길이를 넘으면 말줄임표 추가
+ */
+function truncate(value: string, maxLength: number): string {
+  const singleLine = value.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.substring(0, Math.max(1, maxLength - 1))}…` : singleLine;
+}
+
+/**
+ * 설정 값을 정의한 범위 (작업 영역 설정에 있으면 작업 영역, 아니면 사용자 설정)
+ */
+function getDefiningTarget(inspection: { workspaceValue?: boolean } | undefined): vscode.ConfigurationTarget {
+  return inspection && inspection.workspaceValue !== undefined
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+/**
+ * 보간 변수 패턴 (%{name}, %<name>s - %%{name}은 이스케이프)
+ */
+const INTERPOLATION_PATTERN = /(?<!%)%(?:\{(\w+)\}|<(\w+)>)/g;
+
+/**
+ * I18n.t의 예약된 옵션 (보간 변수로 사용할 수 없음)
+ */
+export const RESERVED_OPTION_NAMES = [
+  'scope', 'default', 'separator', 'resolve', 'object', 'fallback', 'fallback_in_progress',
+  'fallback_original_locale', 'format', 'cascade', 'throw', 'raise', 'deep_interpolation', 'locale'
+];
+
+/**
+ * 번역 값에서 보간 변수 추출 (예: "Hello %{name}" -> ["name"])
+ */
+export function extractInterpolationVariables(value: string): string[] {
+  const variables = new Set<string>();
+  const regex = new RegExp(INTERPOLATION_PATTERN.source, INTERPOLATION_PATTERN.flags);
+  let match;
+  
+  while ((match = regex.exec(value)) !== null) {
+    variables.add(match[1] || match[2]);
+  }
+  
+  return Array.from(variables);
+}
+
+/**
+ * 두 보간 변수 목록이 같은지 확인 (순서 무관)
+ */
+export function hasSameVariables(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(variable => b.includes(variable));
+}
\ No newline at end of file
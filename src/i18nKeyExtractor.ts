@@ -0,0 +1,317 @@
+import * as vscode from 'vscode';
+import { I18nLocalesScanner } from './i18nLocalesScanner';
+import { I18nTranslationWriter } from './i18nTranslationWriter';
+import { I18nFallbacks } from './i18nFallbacks';
+import { getLazyLookupScope, isLazyKey } from './i18nLazyLookup';
+import { findErbCodeRanges } from './i18nRubyTokenizer';
+import { isErbDocument } from './i18nDocumentCalls';
+import { RESERVED_OPTION_NAMES } from './i18nInterpolation';
+
+// 기본 로케일이 아닌 로케일에 넣는 번역 대기 표시
+const PLACEHOLDER_PREFIX = 'TODO: ';
+
+// 따옴표 문자열 리터럴
+const LITERAL_PATTERN = /^(["'])([\s\S]*)\1$/;
+
+// 키 이름 제안에 사용할 최대 단어 수
+const MAX_KEY_WORDS = 4;
+
+/**
+ * 선택 영역에서 추출할 문자열 정보
+ */
+interface ExtractTarget {
+  range: vscode.Range; // 바꿀 범위 (문자열 리터럴은 따옴표 포함)
+  value: string; // 로케일 파일에 넣을 값 (보간은 %{name} 형태)
+  args: Array<{ name: string, expression: string }>; // t 호출에 넘길 보간 인자
+  isErbText: boolean; // ERB 코드 밖의 HTML 텍스트인지 여부
+}
+
+export class I18nKeyExtractor {
+  private outputChannel: vscode.OutputChannel;
+  private debugMode: boolean = false;
+  
+  constructor(
+    private localesScanner: I18nLocalesScanner,
+    outputChannel: vscode.OutputChannel,
+    private fallbacks: I18nFallbacks,
+    private translationWriter: I18nTranslationWriter
+  ) {
+    this.outputChannel = outputChannel;
+    this.updateDebugMode();
+  }
+  
+  /**
+   * 디버그 모드 설정 업데이트
+   */
+  private updateDebugMode(): void {
+    const config = vscode.workspace.getConfiguration('rails-i18n');
+    this.debugMode = config.get('debugMode') || false;
+  }
+  
+  /**
+   * 로그 출력
+   */
+  private log(message: string, force: boolean = false): void {
+    if (force || this.debugMode) {
+      console.log(message);
+      this.outputChannel.appendLine(message);
+    }
+  }
+  
+  /**
+   * 선택한 문자열을 I18n 키로 추출 (기본 로케일에 값, 다른 로케일에 TODO 값 추가 후 t 호출로 교체)
+   */
+  public async extract(editor: vscode.TextEditor): Promise<void> {
+    this.updateDebugMode();
+    const document = editor.document;
+    
+    const target = this.getExtractTarget(document, editor.selection);
+    if (!target) {
+      vscode.window.showWarningMessage('추출할 문자열 리터럴 또는 ERB 텍스트를 선택하세요.');
+      return;
+    }
+    
+    const languageCodes = this.localesScanner.getLanguageCodes();
+    if (languageCodes.length === 0) {
+      vscode.window.showErrorMessage('로케일 파일을 찾을 수 없습니다. 먼저 키 스캔을 실행하세요.');
+      return;
+    }
+    
+    const offset = document.offsetAt(target.range.start);
+    const scope = getLazyLookupScope(document.fileName, document.getText(), offset);
+    const inputKey = await vscode.window.showInputBox({
+      prompt: `"${target.value}"을(를) 추출할 I18n 키를 입력하세요`,
+      value: this.suggestKey(target.value, scope),
+      validateInput: input => this.validateKey(input, scope)
+    });
+    
+    // 입력을 취소한 경우
+    if (inputKey === undefined) {
+      return;
+    }
+    
+    const rawKey = inputKey.trim();
+    const key = isLazyKey(rawKey) ? `${scope}${rawKey}` : rawKey;
+    const defaultLocale = this.getDefaultLocale(languageCodes);
+    
+    const values = new Map<string, string>();
+    for (const lang of languageCodes) {
+      values.set(lang, lang === defaultLocale ? target.value : `${PLACEHOLDER_PREFIX}${target.value}`);
+    }
+    
+    // 모든 로케일 파일의 키 추가와 원본 문자열 교체를 한 번의 편집으로 적용
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, target.range, this.createReplacement(rawKey, target, isErbDocument(document)));
+    
+    try {
+      await this.translationWriter.addTranslations(key, values, edit);
+    } catch (error) {
+      console.error('I18n 키 추출 중 오류 발생:', error);
+      vscode.window.showErrorMessage(`I18n 키 추출 중 오류가 발생했습니다: ${error}`);
+      return;
+    }
+    
+    this.log(`키 추출: "${target.value}" -> ${key} (${languageCodes.join(', ')})`, true);
+  }
+  
+  /**
+   * 선택 영역의 추출 대상 (Ruby 문자열 리터럴 또는 ERB 코드 밖의 텍스트)
+   */
+  private getExtractTarget(document: vscode.TextDocument, selection: vscode.Selection): ExtractTarget | undefined {
+    if (selection.isEmpty) {
+      return undefined;
+    }
+    
+    // 앞뒤 공백은 추출하지 않음
+    const text = document.getText();
+    const selected = text.substring(document.offsetAt(selection.start), document.offsetAt(selection.end));
+    let start = document.offsetAt(selection.start) + selected.length - selected.trimLeft().length;
+    let end = document.offsetAt(selection.end) - (selected.length - selected.trimRight().length);
+    if (start >= end) {
+      return undefined;
+    }
+    
+    // ERB 코드 밖이면 선택한 텍스트 그대로 추출
+    const isErb = isErbDocument(document);
+    const inCode = !isErb || findErbCodeRanges(text).some(range => start >= range.start && end <= range.end);
+    if (!inCode) {
+      const value = text.substring(start, end);
+      if (value.includes('<%')) {
+        return undefined;
+      }
+      
+      return {
+        range: new vscode.Range(document.positionAt(start), document.positionAt(end)),
+        value: value.replace(/\s+/g, ' '),
+        args: [],
+        isErbText: true
+      };
+    }
+    
+    // 따옴표 안의 내용만 선택한 경우 따옴표까지 포함
+    const quote = text[start - 1];
+    if ((quote === '"' || quote === "'") && text[end] === quote && !LITERAL_PATTERN.test(text.substring(start, end))) {
+      start--;
+      end++;
+    }
+    
+    const literalMatch = text.substring(start, end).match(LITERAL_PATTERN);
+    if (!literalMatch) {
+      return undefined;
+    }
+    
+    const converted = literalMatch[1] === '"'
+      ? convertInterpolations(literalMatch[2])
+      : { value: unescapeString(literalMatch[2], "'"), args: [] };
+    if (!converted.value.trim()) {
+      return undefined;
+    }
+    
+    return {
+      range: new vscode.Range(document.positionAt(start), document.positionAt(end)),
+      value: converted.value,
+      args: converted.args,
+      isErbText: false
+    };
+  }
+  
+  /**
+   * 파일 범위와 텍스트로 키 제안 (범위를 알면 lazy lookup 키, 이미 있으면 번호를 붙임)
+   */
+  private suggestKey(value: string, scope: string | undefined): string {
+    const words = value
+      .replace(/%\{\w+\}/g, ' ')
+      .toLowerCase()
+      .match(/[a-z0-9]+/g) || [];
+    const name = words.slice(0, MAX_KEY_WORDS).join('_') || 'text';
+    const prefix = scope ? '.' : '';
+    
+    let candidate = `${prefix}${name}`;
+    for (let suffix = 2; this.localesScanner.hasKey(scope ? `${scope}${candidate}` : candidate); suffix++) {
+      candidate = `${prefix}${name}_${suffix}`;
+    }
+    
+    return candidate;
+  }
+  
+  /**
+   * 입력한 키 검사 (오류 메시지 또는 undefined)
+   */
+  private validateKey(input: string, scope: string | undefined): string | undefined {
+    const key = input.trim();
+    if (!/^\.?[\w-]+(\.[\w-]+)*$/.test(key)) {
+      return '점으로 구분된 키를 입력하세요 (예: .title, users.index.title)';
+    }
+    
+    if (isLazyKey(key) && !scope) {
+      return '이 파일에서는 lazy lookup 범위를 알 수 없습니다. 전체 키를 입력하세요.';
+    }
+    
+    const fullKey = isLazyKey(key) ? `${scope}${key}` : key;
+    if (this.localesScanner.hasKey(fullKey) || this.localesScanner.listChildKeys(fullKey).length > 0) {
+      return `"${fullKey}" 키가 이미 있습니다.`;
+    }
+    
+    // 상위 키가 번역 값이면 그 아래에 키를 만들 수 없음
+    const parts = fullKey.split('.');
+    for (let index = 1; index < parts.length; index++) {
+      const parentKey = parts.slice(0, index).join('.');
+      if (this.localesScanner.hasKey(parentKey)) {
+        return `상위 키 "${parentKey}"가 번역 값이라 하위 키를 추가할 수 없습니다.`;
+      }
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * 기본 로케일 (감지된 언어에 없으면 첫 번째 언어)
+   */
+  private getDefaultLocale(languageCodes: string[]): string {
+    const defaultLocale = this.fallbacks.getDefaultLocale();
+    return languageCodes.includes(defaultLocale) ? defaultLocale : languageCodes[0];
+  }
+  
+  /**
+   * 선택 영역을 바꿀 t 호출 (lazy lookup이 아닌 Ruby 코드는 I18n.t)
+   */
+  private createReplacement(key: string, target: ExtractTarget, isErb: boolean): string {
+    const method = isLazyKey(key) || isErb ? 't' : 'I18n.t';
+    const args = target.args.map(arg => `, ${arg.name}: ${arg.expression}`).join('');
+    const call = `${method}('${key}'${args})`;
+    
+    return target.isErbText ? `<%= ${call} %>` : call;
+  }
+}
+
+/**
+ * 큰따옴표 문자열의 #{} 보간을 %{name} 변수로 변환 ("Hi #{user.name}" -> "Hi %{name}", name: user.name)
+ */
+function convertInterpolations(content: string): { value: string, args: Array<{ name: string, expression: string }> } {
+  const args: Array<{ name: string, expression: string }> = [];
+  let value = '';
+  let index = 0;
+  
+  while (index < content.length) {
+    const interpolationStart = content.indexOf('#{', index);
+    if (interpolationStart === -1) {
+      value += unescapeString(content.substring(index), '"');
+      break;
+    }
+    
+    value += unescapeString(content.substring(index, interpolationStart), '"');
+    
+    // 중첩된 중괄호를 고려해 닫는 중괄호 찾기
+    let depth = 0;
+    let end = interpolationStart + 2;
+    for (; end < content.length; end++) {
+      if (content[end] === '{') {
+        depth++;
+      } else if (content[end] === '}') {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      }
+    }
+    
+    const expression = content.substring(interpolationStart + 2, end).trim();
+    const existing = args.find(arg => arg.expression === expression);
+    const name = existing ? existing.name : createVariableName(expression, args.map(arg => arg.name));
+    if (!existing) {
+      args.push({ name, expression });
+    }
+    
+    value += `%{${name}}`;
+    index = end + 1;
+  }
+  
+  return { value, args };
+}
+
+/**
+ * 보간 식에서 변수 이름 만들기 (user.name -> name, 중복되거나 I18n 옵션 이름(scope, default 등)이면 번호를 붙임)
+ */
+function createVariableName(expression: string, usedNames: string[]): string {
+  const nameMatch = expression.match(/([a-z_]\w*)[?!]?\s*(?:\(\))?$/i);
+  const baseName = nameMatch ? nameMatch[1].toLowerCase() : 'value';
+  
+  let name = baseName;
+  for (let suffix = 2; usedNames.includes(name) || RESERVED_OPTION_NAMES.includes(name); suffix++) {
+    name = `${baseName}${suffix}`;
+  }
+  
+  return name;
+}
+
+/**
+ * Ruby 문자열 리터럴의 이스케이프 해제
+ */
+function unescapeString(content: string, quote: string): string {
+  if (quote === "'") {
+    return content.replace(/\\([\\'])/g, '$1');
+  }
+  
+  const escapes: { [char: string]: string } = { n: '\n', t: '\t', s: ' ' };
+  return content.replace(/\\(.)/g, (match, char: string) => escapes[char] !== undefined ? escapes[char] : char);
+}
\ No newline at end of file
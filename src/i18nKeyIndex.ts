@@ -0,0 +1,284 @@
+import { I18nEntry } from './i18nLocalesScanner';
+
+/**
+ * 키 트리의 노드 (점으로 구분된 키의 한 세그먼트)
+ */
+interface KeyTreeNode {
+  children: Map<string, KeyTreeNode>;
+  isKey: boolean; // 이 노드까지의 경로가 실제 키인지 여부
+  keyCount: number; // 하위에 있는 키의 수 (자신 포함)
+}
+
+/**
+ * 네임스페이스 하위 세그먼트 정보
+ */
+export interface I18nKeySegment {
+  segment: string; // 세그먼트 이름
+  key: string; // 세그먼트까지의 전체 키
+  isKey: boolean; // 세그먼트 자체가 번역 키인지 여부
+  childCount: number; // 하위 키의 수
+}
+
+// 언어 코드가 없는 항목의 내부 키
+const NO_LANG = '';
+
+/**
+ * 키 → 언어 → 항목 색인과 네임스페이스 조회를 위한 키 트리
+ */
+export class I18nKeyIndex {
+  private entriesByKey = new Map<string, Map<string, I18nEntry[]>>(); // 같은 키와 언어의 파일별 항목 (마지막 항목 우선)
+  private root: KeyTreeNode = I18nKeyIndex.createNode();
+  private languages = new Map<string, number>(); // 언어 코드 → 해당 언어로 정의된 키의 수
+  
+  constructor(entries: I18nEntry[] = []) {
+    entries.forEach(entry => this.add(entry));
+  }
+  
+  /**
+   * 빈 트리 노드 생성
+   */
+  private static createNode(): KeyTreeNode {
+    return { children: new Map<string, KeyTreeNode>(), isKey: false, keyCount: 0 };
+  }
+  
+  /**
+   * 항목 추가 (같은 키와 언어의 항목이 다른 파일에 있으면 나중에 추가한 항목 우선)
+   */
+  public add(entry: I18nEntry): void {
+    let locales = this.entriesByKey.get(entry.key);
+    if (!locales) {
+      locales = new Map<string, I18nEntry[]>();
+      this.entriesByKey.set(entry.key, locales);
+      this.addToTree(entry.key);
+    }
+    
+    const lang = entry.lang || NO_LANG;
+    const candidates = (locales.get(lang) || []).filter(candidate => candidate.file !== entry.file);
+    if (candidates.length === 0 && entry.lang) {
+      this.languages.set(entry.lang, (this.languages.get(entry.lang) || 0) + 1);
+    }
+    
+    candidates.push(entry);
+    locales.set(lang, candidates);
+  }
+  
+  /**
+   * 항목 제거 (다른 파일에 같은 키와 언어의 항목이 남아 있으면 그 항목으로 대체)
+   */
+  public remove(entry: I18nEntry): void {
+    const locales = this.entriesByKey.get(entry.key);
+    const lang = entry.lang || NO_LANG;
+    const candidates = locales && locales.get(lang);
+    if (!locales || !candidates || !candidates.includes(entry)) {
+      return;
+    }
+    
+    const remaining = candidates.filter(candidate => candidate !== entry);
+    if (remaining.length > 0) {
+      locales.set(lang, remaining);
+      return;
+    }
+    
+    locales.delete(lang);
+    if (entry.lang) {
+      const count = (this.languages.get(entry.lang) || 0) - 1;
+      if (count > 0) {
+        this.languages.set(entry.lang, count);
+      } else {
+        this.languages.delete(entry.lang);
+      }
+    }
+    
+    if (locales.size === 0) {
+      this.entriesByKey.delete(entry.key);
+      this.removeFromTree(entry.key);
+    }
+  }
+  
+  /**
+   * 키 트리에 키 경로 추가
+   */
+  private addToTree(key: string): void {
+    let node = this.root;
+    node.keyCount++;
+    
+    for (const segment of key.split('.')) {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = I18nKeyIndex.createNode();
+        node.children.set(segment, child);
+      }
+      child.keyCount++;
+      node = child;
+    }
+    
+    node.isKey = true;
+  }
+  
+  /**
+   * 키 트리에서 키 경로 제거 (하위 키가 없는 노드는 삭제)
+   */
+  private removeFromTree(key: string): void {
+    const path: KeyTreeNode[] = [this.root];
+    const segments = key.split('.');
+    for (const segment of segments) {
+      const child = path[path.length - 1].children.get(segment);
+      if (!child) {
+        return;
+      }
+      path.push(child);
+    }
+    
+    path[path.length - 1].isKey = false;
+    path.forEach(node => node.keyCount--);
+    
+    for (let i = segments.length; i > 0; i--) {
+      if (path[i].keyCount === 0) {
+        path[i - 1].children.delete(segments[i - 1]);
+      }
+    }
+  }
+  
+  /**
+   * 네임스페이스에 해당하는 트리 노드 찾기
+   */
+  private findNode(prefix: string): KeyTreeNode | undefined {
+    if (prefix === '') {
+      return this.root;
+    }
+    
+    let node: KeyTreeNode | undefined = this.root;
+    for (const segment of prefix.split('.')) {
+      node = node.children.get(segment);
+      if (!node) {
+        return undefined;
+      }
+    }
+    
+    return node;
+  }
+  
+  /**
+   * 색인된 키의 수
+   */
+  public get size(): number {
+    return this.entriesByKey.size;
+  }
+  
+  /**
+   * 색인에 나타난 언어 코드 목록
+   */
+  public getLanguages(): string[] {
+    return Array.from(this.languages.keys());
+  }
+  
+  /**
+   * 키가 존재하는지 확인
+   */
+  public has(key: string): boolean {
+    return this.entriesByKey.has(key);
+  }
+  
+  /**
+   * 색인된 모든 항목 (키와 언어별로 우선하는 항목)
+   */
+  public getAllEntries(): I18nEntry[] {
+    const entries: I18nEntry[] = [];
+    this.entriesByKey.forEach(locales => locales.forEach(candidates => entries.push(candidates[candidates.length - 1])));
+    return entries;
+  }
+  
+  /**
+   * 키의 모든 언어 항목
+   */
+  public getEntries(key: string): I18nEntry[] {
+    const locales = this.entriesByKey.get(key);
+    return locales ? Array.from(locales.values(), candidates => candidates[candidates.length - 1]) : [];
+  }
+  
+  /**
+   * 키의 모든 정의 (다른 파일의 같은 언어 항목에 가려진 정의 포함)
+   */
+  public getDefinitions(key: string): I18nEntry[] {
+    const locales = this.entriesByKey.get(key);
+    return locales ? Array.from(locales.values()).flat() : [];
+  }
+  
+  /**
+   * 키의 특정 언어 항목
+   */
+  public getEntry(key: string, lang: string): I18nEntry | undefined {
+    const locales = this.entriesByKey.get(key);
+    const candidates = locales && locales.get(lang);
+    return candidates ? candidates[candidates.length - 1] : undefined;
+  }
+  
+  /**
+   * 키가 정의된 언어 코드 목록
+   */
+  public getLocales(key: string): string[] {
+    const locales = this.entriesByKey.get(key);
+    return locales ? Array.from(locales.keys()).filter(lang => lang !== NO_LANG) : [];
+  }
+  
+  /**
+   * 네임스페이스 바로 아래의 세그먼트 목록 (예: "users" -> index, show, form)
+   */
+  public listChildren(prefix: string): I18nKeySegment[] {
+    const node = this.findNode(prefix);
+    if (!node) {
+      return [];
+    }
+    
+    const segments: I18nKeySegment[] = [];
+    node.children.forEach((child, segment) => {
+      segments.push({
+        segment,
+        key: prefix ? `${prefix}.${segment}` : segment,
+        isKey: child.isKey,
+        childCount: child.keyCount - (child.isKey ? 1 : 0)
+      });
+    });
+    
+    return segments;
+  }
+  
+  /**
+   * 네임스페이스 하위의 모든 키 (네임스페이스 자체가 키이면 포함)
+   */
+  public findKeysWithPrefix(prefix: string): string[] {
+    const node = this.findNode(prefix);
+    if (!node) {
+      return [];
+    }
+    
+    const keys: string[] = [];
+    const collect = (current: KeyTreeNode, key: string) => {
+      if (current.isKey) {
+        keys.push(key);
+      }
+      current.children.forEach((child, segment) => collect(child, key ? `${key}.${segment}` : segment));
+    };
+    collect(node, prefix);
+    
+    return keys;
+  }
+  
+  /**
+   * 네임스페이스 하위의 모든 항목
+   */
+  public findEntriesWithPrefix(prefix: string): I18nEntry[] {
+    const entries: I18nEntry[] = [];
+    for (const key of this.findKeysWithPrefix(prefix)) {
+      this.entriesByKey.get(key)!.forEach(candidates => entries.push(candidates[candidates.length - 1]));
+    }
+    return entries;
+  }
+  
+  /**
+   * 네임스페이스 하위의 모든 정의 (가려진 정의 포함)
+   */
+  public findDefinitionsWithPrefix(prefix: string): I18nEntry[] {
+    return this.findKeysWithPrefix(prefix).flatMap(key => this.getDefinitions(key));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,174 @@
+/**
+ * Rails lazy lookup 키인지 확인 (예: t('.title'))
+ */
+export function isLazyKey(key: string): boolean {
+  return key.startsWith('.');
+}
+
+/**
+ * 파일 경로와 커서 위치로부터 lazy lookup 범위 계산
+ * - 뷰: app/views/users/index.html.erb -> users.index
+ * - 컨트롤러: Admin::UsersController#index -> admin.users.index
+ * - 메일러: UserMailer#welcome -> user_mailer.welcome
+ * - 뷰 컴포넌트: Foo::BarComponent -> foo.bar_component
+ */
+export function getLazyLookupScope(filePath: string, text?: string, offset?: number): string | undefined {
+  const normalizedPath = filePath.replace(/\\/g, '/');
+  
+  const viewsMatch = normalizedPath.match(/(?:^|\/)app\/views\/(.+)$/);
+  if (viewsMatch) {
+    return getViewScope(viewsMatch[1]);
+  }
+  
+  const componentsMatch = normalizedPath.match(/(?:^|\/)app\/components\/(.+)$/);
+  if (componentsMatch) {
+    // 컴포넌트 클래스는 클래스 이름으로, 템플릿은 경로로 범위 계산
+    const context = isRubyFile(normalizedPath) && text !== undefined ? getRubyContext(text, offset) : undefined;
+    return context && context.className
+      ? underscore(context.className).replace(/\//g, '.')
+      : getComponentTemplateScope(componentsMatch[1]);
+  }
+  
+  const rubyMatch = normalizedPath.match(/(?:^|\/)app\/(controllers|mailers)\/(.+)\.rb$/);
+  if (rubyMatch && text !== undefined) {
+    const context = getRubyContext(text, offset);
+    if (!context.methodName) {
+      return undefined;
+    }
+    
+    // 클래스 선언을 찾지 못하면 파일 경로를 클래스 경로로 사용
+    const classPath = context.className ? underscore(context.className) : rubyMatch[2];
+    const scopePath = rubyMatch[1] === 'controllers' ? classPath.replace(/_controller$/, '') : classPath;
+    
+    return `${scopePath.replace(/\//g, '.')}.${context.methodName}`;
+  }
+  
+  return undefined;
+}
+
+/**
+ * lazy lookup 키를 전체 키로 변환 (범위를 알 수 없으면 undefined)
+ */
+export function resolveLazyKey(key: string, filePath: string, text?: string, offset?: number): string | undefined {
+  if (!isLazyKey(key)) {
+    return key;
+  }
+  
+  const scope = getLazyLookupScope(filePath, text, offset);
+  return scope ? `${scope}${key}` : undefined;
+}
+
+/**
+ * 커서 위치를 감싸는 Ruby 클래스 이름 (모듈 포함, 예: Admin::User)
+ */
+export function getEnclosingClassName(text: string, offset?: number): string | undefined {
+  return getRubyContext(text, offset).className;
+}
+
+/**
+ * 뷰 템플릿 경로의 범위 계산
+ */
+function getViewScope(relativePath: string): string | undefined {
+  const parts = relativePath.split('/');
+  
+  // 템플릿 이름에서 확장자와 파셜의 밑줄 제거 (_form.html.erb -> form)
+  const templateName = parts.pop()!.split('.')[0].replace(/^_/, '');
+  if (!templateName) {
+    return undefined;
+  }
+  
+  return [...parts, templateName].join('.');
+}
+
+/**
+ * 뷰 컴포넌트 템플릿 경로의 범위 계산
+ * (foo/bar_component.html.erb, foo/bar_component/bar_component.html.erb -> foo.bar_component)
+ */
+function getComponentTemplateScope(relativePath: string): string | undefined {
+  const parts = relativePath.split('/');
+  const templateName = parts.pop()!.split('.')[0];
+  if (!templateName) {
+    return undefined;
+  }
+  
+  // 사이드카 디렉토리 구조는 디렉토리 이름과 템플릿 이름이 같음
+  if (parts.length > 0 && parts[parts.length - 1] === templateName) {
+    parts.pop();
+  }
+  
+  return [...parts, templateName].join('.');
+}
+
+/**
+ * Ruby 파일인지 확인
+ */
+function isRubyFile(filePath: string): boolean {
+  return filePath.endsWith('.rb');
+}
+
+/**
+ * 커서 위치를 감싸는 Ruby 클래스와 메서드
+ */
+interface RubyContext {
+  className?: string; // 모듈을 포함한 전체 클래스 이름 (Admin::UsersController)
+  methodName?: string; // 메서드 이름 (index)
+}
+
+/**
+ * 들여쓰기를 기준으로 커서 위치를 감싸는 클래스와 메서드 찾기
+ */
+function getRubyContext(text: string, offset?: number): RubyContext {
+  // 커서가 있는 줄 끝까지만 검사
+  const lineEnd = offset !== undefined ? text.indexOf('\n', offset) : -1;
+  const lines = text.substring(0, lineEnd !== -1 ? lineEnd : text.length).split('\n');
+  const namespaces: Array<{ indent: number, name: string }> = [];
+  let method: { indent: number, name: string } | undefined;
+  
+  lines.forEach((line, index) => {
+    const indent = line.length - line.trimLeft().length;
+    
+    // 블록 종료 - 같은 들여쓰기의 메서드 또는 클래스 닫기
+    if (/^\s*end\b/.test(line)) {
+      if (method && method.indent === indent) {
+        method = undefined;
+      } else if (namespaces.length > 0 && namespaces[namespaces.length - 1].indent === indent) {
+        namespaces.pop();
+      }
+      return;
+    }
+    
+    const namespaceMatch = line.match(/^\s*(?:module|class)\s+([A-Z][\w:]*)/);
+    if (namespaceMatch) {
+      while (namespaces.length > 0 && namespaces[namespaces.length - 1].indent >= indent) {
+        namespaces.pop();
+      }
+      namespaces.push({ indent, name: namespaceMatch[1] });
+      method = undefined;
+      return;
+    }
+    
+    const defMatch = line.match(/^\s*def\s+(?:self\.)?([a-z_]\w*[!?]?)/);
+    if (defMatch) {
+      // 한 줄 메서드 (def foo = ..., def foo; ...; end)는 커서가 같은 줄에 있을 때만 유효
+      const isOneLiner = /\bend\s*$/.test(line) || /^\s*def\s+[\w.!?]+(\(.*\))?\s*=[^=~]/.test(line);
+      const isCursorLine = index === lines.length - 1;
+      method = !isOneLiner || isCursorLine ? { indent, name: defMatch[1] } : undefined;
+    }
+  });
+  
+  return {
+    className: namespaces.length > 0 ? namespaces.map(namespace => namespace.name).join('::') : undefined,
+    methodName: method ? method.name : undefined
+  };
+}
+
+/**
+ * Ruby 클래스 이름을 경로 형태로 변환 (Admin::UsersController -> admin/users_controller)
+ */
+export function underscore(className: string): string {
+  return className
+    .replace(/::/g, '/')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/([a-z\d])([A-Z])/g, '$1_$2')
+    .toLowerCase();
+}
\ No newline at end of file
@@ -0,0 +1,125 @@
+// ISO 639-1 언어 코드 (2자리)
+const LANGUAGE_CODES = new Set([
+  'aa', 'ab', 'ae', 'af', 'ak', 'am', 'an', 'ar', 'as', 'av', 'ay', 'az', 'ba', 'be', 'bg', 'bh', 'bi',
+  'bm', 'bn', 'bo', 'br', 'bs', 'ca', 'ce', 'ch', 'co', 'cr', 'cs', 'cu', 'cv', 'cy', 'da', 'de', 'dv',
+  'dz', 'ee', 'el', 'en', 'eo', 'es', 'et', 'eu', 'fa', 'ff', 'fi', 'fj', 'fo', 'fr', 'fy', 'ga', 'gd',
+  'gl', 'gn', 'gu', 'gv', 'ha', 'he', 'hi', 'ho', 'hr', 'ht', 'hu', 'hy', 'hz', 'ia', 'id', 'ie', 'ig',
+  'ii', 'ik', 'io', 'is', 'it', 'iu', 'ja', 'jv', 'ka', 'kg', 'ki', 'kj', 'kk', 'kl', 'km', 'kn', 'ko',
+  'kr', 'ks', 'ku', 'kv', 'kw', 'ky', 'la', 'lb', 'lg', 'li', 'ln', 'lo', 'lt', 'lu', 'lv', 'mg', 'mh',
+  'mi', 'mk', 'ml', 'mn', 'mr', 'ms', 'mt', 'my', 'na', 'nb', 'nd', 'ne', 'ng', 'nl', 'nn', 'no', 'nr',
+  'nv', 'ny', 'oc', 'oj', 'om', 'or', 'os', 'pa', 'pi', 'pl', 'ps', 'pt', 'qu', 'rm', 'rn', 'ro', 'ru',
+  'rw', 'sa', 'sc', 'sd', 'se', 'sg', 'si', 'sk', 'sl', 'sm', 'sn', 'so', 'sq', 'sr', 'ss', 'st', 'su',
+  'sv', 'sw', 'ta', 'te', 'tg', 'th', 'ti', 'tk', 'tl', 'tn', 'to', 'tr', 'ts', 'tt', 'tw', 'ty', 'ug',
+  'uk', 'ur', 'uz', 've', 'vi', 'vo', 'wa', 'wo', 'xh', 'yi', 'yo', 'za', 'zh', 'zu'
+]);
+
+// rails-i18n에서 사용하는 3자리 언어 코드
+const THREE_LETTER_LANGUAGE_CODES = new Set(['ast', 'ckb', 'fil', 'fur', 'gsw', 'haw', 'mfe', 'scr']);
+
+// 언어-문자-지역 형식 (예: pt-BR, zh-TW, sr-Latn, zh-Hant-TW, es-419)
+const LOCALE_PATTERN = /^([a-z]{2,3})(?:[-_]([a-z]{4}))?(?:[-_]([a-z]{2}|\d{3}))?$/i;
+
+// 지역 코드가 없는 언어의 대표 국기
+const LANGUAGE_FLAGS: { [lang: string]: string } = {
+  'ko': '🇰🇷',
+  'en': '🇺🇸',
+  'ja': '🇯🇵',
+  'zh': '🇨🇳',
+  'fr': '🇫🇷',
+  'de': '🇩🇪',
+  'es': '🇪🇸'
+};
+
+/**
+ * Rails 로케일 코드인지 확인 (ko, pt-BR, zh-TW, sr-Latn 등)
+ */
+export function isLocaleCode(code: string): boolean {
+  const match = code.match(LOCALE_PATTERN);
+  if (!match) {
+    return false;
+  }
+  
+  const language = match[1].toLowerCase();
+  return LANGUAGE_CODES.has(language) || THREE_LETTER_LANGUAGE_CODES.has(language);
+}
+
+/**
+ * 로케일 코드의 대소문자 정규화 (pt-br -> pt-BR, sr-latn -> sr-Latn)
+ */
+export function normalizeLocaleCode(code: string): string {
+  const match = code.match(LOCALE_PATTERN);
+  if (!match) {
+    return code;
+  }
+  
+  const separator = code.includes('_') ? '_' : '-';
+  const parts = [match[1].toLowerCase()];
+  if (match[2]) {
+    parts.push(match[2].charAt(0).toUpperCase() + match[2].substring(1).toLowerCase());
+  }
+  if (match[3]) {
+    parts.push(match[3].toUpperCase());
+  }
+  
+  return parts.join(separator);
+}
+
+/**
+ * 로케일의 기본 언어 코드 (pt-BR -> pt)
+ */
+export function getBaseLanguage(locale: string): string {
+  return locale.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * 로케일의 지역 코드 (pt-BR -> BR, sr-Latn -> undefined)
+ */
+export function getRegion(locale: string): string | undefined {
+  const match = locale.match(LOCALE_PATTERN);
+  return match && match[3] && /^[a-z]{2}$/i.test(match[3]) ? match[3].toUpperCase() : undefined;
+}
+
+/**
+ * 로케일의 국기 이모지 (지역 코드가 있으면 해당 지역의 국기)
+ */
+export function getLocaleFlag(locale: string): string | undefined {
+  const region = getRegion(locale);
+  if (region) {
+    // 지역 코드를 국기 이모지의 지역 표시 문자로 변환
+    return String.fromCodePoint(...region.split('').map(char => 0x1F1E6 + char.charCodeAt(0) - 65));
+  }
+  
+  return LANGUAGE_FLAGS[getBaseLanguage(locale)];
+}
+
+/**
+ * 파일 이름에서 로케일 코드 추출 (ko.yml, pt-BR.yml, devise.zh-TW.yml, ko.string.yml)
+ */
+export function getLocaleFromFileName(fileName: string): string | undefined {
+  const segments = fileName.replace(/\.ya?ml$/i, '').split('.');
+  
+  // Rails처럼 로케일은 마지막 세그먼트부터 찾기 (my.en.yml -> en)
+  const locale = segments.slice().reverse().find(segment => isLocaleCode(segment));
+  if (locale) {
+    return normalizeLocaleCode(locale);
+  }
+  
+  // 밑줄로 이어진 파일 이름 (ko_string.yml)
+  const prefixMatch = segments[0].match(/^([a-z]{2})_/i);
+  return prefixMatch && isLocaleCode(prefixMatch[1]) ? prefixMatch[1].toLowerCase() : undefined;
+}
+
+/**
+ * 로케일과 상위 로케일 목록 (zh-Hant-TW -> zh-Hant-TW, zh-Hant, zh)
+ */
+export function getLocaleWithParents(locale: string): string[] {
+  const separator = locale.includes('_') ? '_' : '-';
+  const parts = locale.split(/[-_]/);
+  const locales: string[] = [];
+  
+  for (let length = parts.length; length > 0; length--) {
+    locales.push(parts.slice(0, length).join(separator));
+  }
+  
+  return locales;
+}
\ No newline at end of file
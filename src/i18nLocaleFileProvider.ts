@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { I18nEntry, I18nLocalesScanner } from './i18nLocalesScanner';
+import { I18nFallbacks } from './i18nFallbacks';
+import { getLocaleFlag, getLocaleFromFileName, isLocaleCode, normalizeLocaleCode } from './i18nLocale';
+import { PLURAL_CATEGORIES } from './i18nPlural';
+import { findKeyAtOffset } from './i18nYamlEditor';
+
+/**
+ * 로케일 파일에서 커서 위치의 키 정보
+ */
+interface LocaleFileKey {
+  key: string; // 최상위 언어 키를 제외한 키
+  fullPath: string; // 최상위 언어 키를 포함한 전체 경로
+  lang?: string; // 현재 파일의 언어
+  range: vscode.Range; // 키 범위
+}
+
+export class I18nLocaleFileProvider implements vscode.HoverProvider, vscode.DefinitionProvider {
+  private outputChannel: vscode.OutputChannel;
+  private debugMode: boolean = false;
+  
+  constructor(
+    private localesScanner: I18nLocalesScanner,
+    outputChannel: vscode.OutputChannel,
+    private fallbacks: I18nFallbacks
+  ) {
+    this.outputChannel = outputChannel;
+    this.updateDebugMode();
+  }
+  
+  /**
+   * 디버그 모드 설정 업데이트
+   */
+  private updateDebugMode(): void {
+    const config = vscode.workspace.getConfiguration('rails-i18n');
+    this.debugMode = config.get('debugMode') || false;
+  }
+  
+  /**
+   * 로그 출력
+   */
+  private log(message: string, force: boolean = false): void {
+    if (force || this.debugMode) {
+      console.log(message);
+      this.outputChannel.appendLine(message);
+    }
+  }
+  
+  /**
+   * 로케일 파일의 키에 다른 로케일의 번역 값 표시
+   */
+  public provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.Hover> {
+    this.updateDebugMode();
+    
+    const localeFileKey = this.findKeyAtPosition(document, position);
+    if (!localeFileKey) {
+      return undefined;
+    }
+    
+    this.log(`로케일 파일 호버: ${localeFileKey.fullPath}`, this.debugMode);
+    return new vscode.Hover(this.createHoverContent(localeFileKey), localeFileKey.range);
+  }
+  
+  /**
+   * 로케일 파일의 키에서 다른 로케일의 같은 키 정의로 이동
+   */
+  public provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.Definition> {
+    this.updateDebugMode();
+    
+    const localeFileKey = this.findKeyAtPosition(document, position);
+    if (!localeFileKey) {
+      return undefined;
+    }
+    
+    const locations = this.getSiblingEntries(localeFileKey)
+      .filter(entry => entry.fileLine !== undefined)
+      .map(entry => new vscode.Location(vscode.Uri.file(entry.file), entry.keyRange || new vscode.Position(entry.fileLine! - 1, 0)));
+    
+    this.log(`로케일 파일 정의 제공: ${localeFileKey.key} - ${locations.length}개 위치`, this.debugMode);
+    return locations;
+  }
+  
+  /**
+   * 커서 위치의 번역 키 (번역 값이 있는 키만, 복수형 형태는 복수형 키)
+   */
+  private findKeyAtPosition(document: vscode.TextDocument, position: vscode.Position): LocaleFileKey | undefined {
+    if (!this.localesScanner.isLocaleFilePath(document.fileName)) {
+      return undefined;
+    }
+    
+    const keyAtOffset = findKeyAtOffset(document.getText(), document.offsetAt(position));
+    if (!keyAtOffset) {
+      return undefined;
+    }
+    
+    const hasRootLocale = isLocaleCode(keyAtOffset.keyPath[0]);
+    let keyPath = hasRootLocale ? keyAtOffset.keyPath.slice(1) : keyAtOffset.keyPath;
+    
+    // 복수형 형태 (one, other)는 복수형 키로 처리
+    if (keyPath.length > 1 && PLURAL_CATEGORIES.includes(keyPath[keyPath.length - 1])
+      && this.localesScanner.hasKey(keyPath.slice(0, -1).join('.'))) {
+      keyPath = keyPath.slice(0, -1);
+    }
+    
+    const key = keyPath.join('.');
+    if (!key || !this.localesScanner.hasKey(key)) {
+      return undefined;
+    }
+    
+    return {
+      key,
+      fullPath: keyAtOffset.keyPath.join('.'),
+      lang: hasRootLocale
+        ? normalizeLocaleCode(keyAtOffset.keyPath[0])
+        : getLocaleFromFileName(path.basename(document.fileName)),
+      range: new vscode.Range(document.positionAt(keyAtOffset.start), document.positionAt(keyAtOffset.end))
+    };
+  }
+  
+  /**
+   * 현재 로케일을 제외한 같은 키의 항목
+   */
+  private getSiblingEntries(localeFileKey: LocaleFileKey): I18nEntry[] {
+    return this.localesScanner.getEntriesForKey(localeFileKey.key).filter(entry => entry.lang !== localeFileKey.lang);
+  }
+  
+  /**
+   * 다른 로케일의 값과 정의 위치 링크, 누락된 로케일 표시 (번역 값은 마크다운으로 해석하지 않음)
+   */
+  private createHoverContent(localeFileKey: LocaleFileKey): vscode.MarkdownString {
+    const content = new vscode.MarkdownString();
+    
+    content.appendMarkdown(`## 🌐 I18n: \`${localeFileKey.key}\`\n\n`);
+    content.appendMarkdown(`전체 경로: \`${localeFileKey.fullPath}\`\n\n`);
+    
+    const otherLangs = this.localesScanner.getLanguageCodes().filter(lang => lang !== localeFileKey.lang);
+    const definedLangs = this.localesScanner.getKeyLocales(localeFileKey.key);
+    const missingLangs = otherLangs.filter(lang => !definedLangs.includes(lang));
+    if (missingLangs.length > 0) {
+      content.appendMarkdown(`⚠️ **다음 로케일에 없습니다:** ${missingLangs.join(', ')}\n\n`);
+    }
+    
+    if (otherLangs.length === 0) {
+      content.appendMarkdown(`> ℹ️ *다른 로케일이 없습니다.*`);
+      return content;
+    }
+    
+    content.appendMarkdown(`---`);
+    
+    otherLangs.forEach(lang => {
+      const emoji = getLocaleFlag(lang) || '🌐';
+      content.appendMarkdown(`\n\n### ${emoji} ${lang}\n\n`);
+      
+      const entry = this.localesScanner.getEntry(localeFileKey.key, lang);
+      if (entry) {
+        content.appendMarkdown(`> 💬 **`);
+        content.appendText(truncateValue(entry.value));
+        content.appendMarkdown(`**\n\n${createEntryLink(entry)}`);
+        return;
+      }
+      
+      // 없는 로케일은 런타임에 폴백으로 사용되는 값 표시
+      content.appendMarkdown(`> ⚠️ **번역 없음**`);
+      const fallbackEntry = this.fallbacks.resolveEntry(localeFileKey.key, lang);
+      if (fallbackEntry && fallbackEntry.lang !== lang) {
+        content.appendMarkdown(`\n\n↪️ *${fallbackEntry.lang}에서 폴백*: `);
+        content.appendText(truncateValue(fallbackEntry.value));
+      }
+    });
+    
+    return content;
+  }
+}
+
+/**
+ * 항목의 정의 위치로 이동하는 링크
+ */
+function createEntryLink(entry: I18nEntry): string {
+  const fileName = vscode.workspace.asRelativePath(entry.file);
+  if (entry.fileLine === undefined) {
+    return `📁 [${fileName}](${vscode.Uri.file(entry.file)})`;
+  }
+  
+  const uri = vscode.Uri.file(entry.file).with({ fragment: `L${entry.fileLine}` });
+  return `📁 [${fileName}:${entry.fileLine}](${uri})`;
+}
+
+/**
+ * 너무 긴 번역 값은 잘라서 한 줄로 표시
+ */
+function truncateValue(value: string): string {
+  const singleLine = (value || '').replace(/\s+/g, ' ').trim();
+  return singleLine.length > 150 ? singleLine.substring(0, 147) + '...' : singleLine;
+}
\ No newline at end of file
@@ -2,6 +2,10 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'yaml';
+import { I18nKeyIndex, I18nKeySegment } from './i18nKeyIndex';
+import { getBaseLanguage, getLocaleFromFileName, isLocaleCode, normalizeLocaleCode } from './i18nLocale';
+import { isPluralHash, PLURAL_CATEGORIES } from './i18nPlural';
+import { extractInterpolationVariables } from './i18nInterpolation';
 
 export interface I18nEntry {
   key: string;
@@ -9,12 +13,44 @@ export interface I18nEntry {
   file: string;
   lang?: string; // 언어 코드 추가
   fileLine?: number; // 파일 내 위치를 위한 라인 번호 추가
+  keyRange?: vscode.Range; // 파일 내 키 범위
+  valueRange?: vscode.Range; // 파일 내 값 범위 (복수형 키는 형태 매핑 전체)
+  anchorSource?: I18nKeyPosition; // 별칭이나 병합 키(<<: *defaults)로 가져온 키의 앵커 쪽 위치
+  aliasRange?: vscode.Range; // 파일에 직접 적히지 않고 별칭이나 병합 키로만 생긴 키의 별칭 위치 (편집할 수 없음)
+  isAnchorTemplate?: boolean; // 별칭으로 참조되는 앵커 매핑(defaults: &defaults) 아래의 키인지 여부
+  plurals?: { [category: string]: string }; // 복수형 키의 형태별 값 (one, other 등)
+  variables?: string[]; // 보간 변수 (%{name})
+}
+
+/**
+ * 파일 내 키와 값의 위치
+ */
+export interface I18nKeyPosition {
+  keyRange: vscode.Range;
+  valueRange?: vscode.Range;
+}
+
+/**
+ * 키 경로의 위치 정보 (별칭으로 가져온 키는 별칭을 사용한 위치와 앵커 쪽 위치)
+ */
+interface KeyPosition extends I18nKeyPosition {
+  anchorSource?: I18nKeyPosition;
+  aliasRange?: vscode.Range;
+  isAnchorTemplate?: boolean;
 }
 
 export class I18nLocalesScanner {
-  private i18nEntries: I18nEntry[] = [];
+  private i18nEntries?: I18nEntry[]; // 전체 항목 (색인이 바뀌면 다시 계산)
+  private fileEntries = new Map<string, I18nEntry[]>(); // 파일별 항목 (부분 재스캔용)
+  private keyIndex = new I18nKeyIndex(); // 키 → 언어 → 항목 색인
   private outputChannel: vscode.OutputChannel;
   private debugMode: boolean = false;
+  private readonly updateEmitter = new vscode.EventEmitter<void>();
+  
+  /**
+   * 로케일 항목이 갱신되었을 때 발생하는 이벤트
+   */
+  public readonly onDidUpdateEntries: vscode.Event<void> = this.updateEmitter.event;
   
   constructor(outputChannel: vscode.OutputChannel) {
     this.outputChannel = outputChannel;
@@ -46,34 +82,59 @@ export class I18nLocalesScanner {
     // 디버그 모드 업데이트
     this.updateDebugMode();
     
-    this.i18nEntries = [];
+    this.i18nEntries = undefined;
+    this.keyIndex = new I18nKeyIndex();
+    this.fileEntries.clear();
     
     // 설정에서 로케일 경로 가져오기
-    const config = vscode.workspace.getConfiguration('rails-i18n');
-    let localesPaths: string[] = config.get('localesPaths') || ['config/locales'];
-    
-    // tmp 폴더는 스캔하지 않도록 필터링
-    localesPaths = localesPaths.filter(path => !path.includes('tmp'));
+    const localesPaths = this.getLocalesPaths();
     
     this.log(`로케일 경로 설정: ${localesPaths.join(', ')}`, true);
     
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders) {
       this.log('워크스페이스 폴더를 찾을 수 없습니다.', true);
-      return this.i18nEntries;
+      return this.getEntries();
     }
     
     // 로케일 파일 스캔
     await this.scanWorkspaceFolders(workspaceFolders, localesPaths);
     
-    // 후처리
-    this.removeDuplicateEntries();
-    this.normalizeI18nKeys();
-    
-    this.log(`총 ${this.i18nEntries.length}개의 I18n 키를 찾았습니다.`, true);
+    const entries = this.getEntries();
+    this.log(`총 ${entries.length}개의 I18n 키를 찾았습니다.`, true);
     this.logScanResults();
     
-    return this.i18nEntries;
+    this.updateEmitter.fire();
+    
+    return entries;
+  }
+  
+  /**
+   * 설정된 로케일 경로 목록 (tmp 폴더 제외)
+   */
+  public getLocalesPaths(): string[] {
+    const config = vscode.workspace.getConfiguration('rails-i18n');
+    const localesPaths: string[] = config.get('localesPaths') || ['config/locales'];
+    
+    // tmp 폴더는 스캔하지 않도록 필터링
+    return localesPaths.filter(localesPath => !localesPath.includes('tmp'));
+  }
+  
+  /**
+   * 설정된 로케일 경로 안의 YAML 파일인지 확인
+   */
+  public isLocaleFilePath(filePath: string): boolean {
+    if (!this.isLocaleFile(path.basename(filePath))) {
+      return false;
+    }
+    
+    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+    const localesPaths = this.getLocalesPaths();
+    
+    return workspaceFolders.some(workspaceFolder => localesPaths.some(localesPath => {
+      const relativePath = path.relative(path.join(workspaceFolder.uri.fsPath, localesPath), filePath);
+      return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    }));
   }
   
   /**
@@ -81,13 +142,14 @@ export class I18nLocalesScanner {
    */
   private logScanResults(): void {
     // 시작하는 키를 몇 개 출력
-    if (this.i18nEntries.length === 0) {
+    const entries = this.getEntries();
+    if (entries.length === 0) {
       return;
     }
     
     this.log('첫 번째 항목들:', true);
-    for (let i = 0; i < Math.min(5, this.i18nEntries.length); i++) {
-      this.log(`  ${i+1}. ${this.i18nEntries[i].key} = ${this.i18nEntries[i].value} [${this.i18nEntries[i].lang || '언어 없음'}]`, true);
+    for (let i = 0; i < Math.min(5, entries.length); i++) {
+      this.log(`  ${i+1}. ${entries[i].key} = ${entries[i].value} [${entries[i].lang || '언어 없음'}]`, true);
     }
     
     // 언어별 항목 통계
@@ -105,7 +167,7 @@ export class I18nLocalesScanner {
   private getLanguageStatistics(): Record<string, number> {
     const langStats: Record<string, number> = {};
     
-    this.i18nEntries.forEach(entry => {
+    this.getEntries().forEach(entry => {
       if (entry.lang) {
         langStats[entry.lang] = (langStats[entry.lang] || 0) + 1;
       } else {
@@ -152,12 +214,8 @@ export class I18nLocalesScanner {
         
         if (stat.isDirectory()) {
           await this.scanDirectory(filePath);
-        } else if (file.endsWith('.yml') || file.endsWith('.yaml')) {
-          // 파일명에서 언어 코드 추출 (예: ko.string.yml -> ko)
-          const langMatch = file.match(/^([a-z]{2})[\._]/i);
-          const lang = langMatch ? langMatch[1] : this.getLangFromFileName(file);
-          
-          await this.parseYamlFile(filePath, lang);
+        } else if (this.isLocaleFile(file)) {
+          await this.indexFile(filePath);
         }
       }
     } catch (err) {
@@ -167,19 +225,86 @@ export class I18nLocalesScanner {
   }
   
   /**
-   * 파일 이름에서 언어 코드 추출
+   * 로케일 YAML 파일인지 확인
+   */
+  private isLocaleFile(fileName: string): boolean {
+    return fileName.endsWith('.yml') || fileName.endsWith('.yaml');
+  }
+  
+  /**
+   * 로케일 파일 하나를 파싱하여 파일별 항목과 색인 갱신
+   */
+  private async indexFile(filePath: string, content?: string): Promise<void> {
+    const entries = await this.parseYamlFile(filePath, this.getLangFromFileName(path.basename(filePath)), content);
+    this.replaceFileEntries(filePath, this.removeDuplicateEntries(this.normalizeI18nKeys(entries)));
+  }
+  
+  /**
+   * 파일의 이전 항목을 색인에서 빼고 새 항목 추가 (entries가 없으면 제거만)
+   */
+  private replaceFileEntries(filePath: string, entries?: I18nEntry[]): void {
+    const previousEntries = this.fileEntries.get(filePath) || [];
+    previousEntries.forEach(entry => this.keyIndex.remove(entry));
+    
+    if (entries) {
+      this.fileEntries.set(filePath, entries);
+      entries.forEach(entry => this.keyIndex.add(entry));
+    } else {
+      this.fileEntries.delete(filePath);
+    }
+    
+    this.i18nEntries = undefined;
+  }
+  
+  /**
+   * 특정 로케일 파일만 다시 스캔 (content가 있으면 저장되지 않은 편집 내용 사용)
+   */
+  public async rescanFile(filePath: string, content?: string): Promise<void> {
+    this.updateDebugMode();
+    
+    if (content !== undefined || fs.existsSync(filePath)) {
+      await this.indexFile(filePath, content);
+    } else {
+      this.replaceFileEntries(filePath);
+    }
+    
+    this.log(`파일 재스캔 완료: ${filePath} (총 ${this.keyIndex.size}개 키)`, this.debugMode);
+    
+    this.updateEmitter.fire();
+  }
+  
+  /**
+   * 삭제된 로케일 파일의 항목 제거
+   */
+  public removeFile(filePath: string): void {
+    if (!this.fileEntries.has(filePath)) {
+      return;
+    }
+    
+    this.replaceFileEntries(filePath);
+    
+    this.log(`파일 제거: ${filePath} (총 ${this.keyIndex.size}개 키)`, this.debugMode);
+    
+    this.updateEmitter.fire();
+  }
+  
+  /**
+   * 파일 이름에서 언어 코드 추출 (예: ko.string.yml -> ko, devise.pt-BR.yml -> pt-BR)
    */
   private getLangFromFileName(fileName: string): string | undefined {
-    const langMatch = fileName.match(/^([a-z]{2})[_\.]/i);
-    return langMatch ? langMatch[1].toLowerCase() : undefined;
+    return getLocaleFromFileName(fileName);
   }
   
   /**
-   * YAML 파일 파싱
+   * YAML 파일 파싱 (content가 없으면 디스크에서 읽음)
    */
-  private async parseYamlFile(filePath: string, lang?: string): Promise<void> {
+  private async parseYamlFile(filePath: string, lang?: string, content?: string): Promise<I18nEntry[]> {
+    const entries: I18nEntry[] = [];
+    
     try {
-      const content = fs.readFileSync(filePath, 'utf8');
+      if (content === undefined) {
+        content = fs.readFileSync(filePath, 'utf8');
+      }
       
       // 파일 이름에서 언어 코드 추출 (lang이 없을 경우)
       if (!lang) {
@@ -191,14 +316,19 @@ export class I18nLocalesScanner {
       }
       
       try {
-        const parsed = yaml.parse(content, { strict: false });
+        const lineCounter = new yaml.LineCounter();
+        const doc = yaml.parseDocument(content, { strict: false, merge: true, lineCounter });
+        if (doc.errors.length > 0) {
+          throw doc.errors[0];
+        }
         
+        const parsed = doc.toJS();
         if (parsed) {
           // 각 키의 위치 정보 추출
-          const keyPositions = this.extractKeyPositions(content);
+          const keyPositions = this.extractKeyPositions(content, doc, lineCounter);
           
           // YAML 객체를 평탄화하여 모든 키-값 쌍을 추출
-          this.flattenYaml(parsed, '', filePath, lang, keyPositions);
+          this.flattenYaml(entries, parsed, '', filePath, lang, keyPositions);
         }
       } catch (parseErr) {
         console.warn(`YAML 파싱 경고 (부분 파싱 시도): ${filePath}, ${parseErr}`);
@@ -210,59 +340,122 @@ export class I18nLocalesScanner {
         }
         
         // 부분 파싱 시도 - 라인별로 처리
-        this.attemptPartialParsing(content, filePath, lang);
+        this.attemptPartialParsing(entries, content, filePath, lang);
       }
     } catch (err) {
       console.error(`파일 읽기 오류: ${filePath}, ${err}`);
       this.log(`파일 읽기 오류: ${filePath}, ${err}`, true);
     }
+    
+    // 번역 값의 보간 변수 추출 (복수형 키는 모든 형태의 변수)
+    for (const entry of entries) {
+      const values = entry.plurals ? Object.values(entry.plurals) : [entry.value];
+      entry.variables = Array.from(new Set(values.flatMap(extractInterpolationVariables)));
+    }
+    
+    return entries;
   }
   
   /**
-   * YAML 파일에서 키의 위치 정보 추출
+   * YAML 문서의 노드 범위에서 키 경로별 키와 값의 위치 추출
+   * (별칭과 병합 키로 가져온 키는 실제로 적용되는 경로에 별칭 위치와 앵커 쪽 위치를 함께 기록)
    */
-  private extractKeyPositions(content: string): Map<string, number> {
-    const keyPositions = new Map<string, number>();
-    const lines = content.split('\n');
-    const keyStack: string[] = [];
+  private extractKeyPositions(content: string, doc: yaml.Document, lineCounter: yaml.LineCounter): Map<string, KeyPosition> {
+    const keyPositions = new Map<string, KeyPosition>();
+    const toRange = (start: number, end: number) => {
+      // 블록 스칼라 등 값 끝에 포함된 줄바꿈은 범위에서 제외
+      while (end > start && /\s/.test(content[end - 1])) {
+        end--;
+      }
+      const startPos = lineCounter.linePos(start);
+      const endPos = lineCounter.linePos(end);
+      return new vscode.Range(startPos.line - 1, startPos.col - 1, endPos.line - 1, endPos.col - 1);
+    };
+    const toPosition = (keyNode: yaml.Node, valueNode: yaml.Node | null): I18nKeyPosition => ({
+      keyRange: toRange(keyNode.range![0], keyNode.range![1]),
+      valueRange: valueNode && valueNode.range ? toRange(valueNode.range[0], valueNode.range[1]) : undefined
+    });
     
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      // 빈 줄이나 주석은 무시
-      if (line === '' || line.startsWith('#')) {
-        continue;
+    // 앵커가 붙은 값의 키 위치와 별칭으로 참조되는 노드
+    const anchorSources = new Map<unknown, I18nKeyPosition>();
+    const aliasedNodes = new Set<unknown>();
+    yaml.visit(doc, {
+      Pair: (_, pair) => {
+        const keyNode = pair.key as yaml.Node;
+        const valueNode = pair.value as yaml.Node | null;
+        if (yaml.isScalar(keyNode) && keyNode.range && valueNode && valueNode.anchor) {
+          anchorSources.set(valueNode, toPosition(keyNode, valueNode));
+        }
+      },
+      Alias: (_, alias) => {
+        aliasedNodes.add(alias.resolve(doc));
       }
+    });
+    
+    const visiting = new Set<unknown>();
+    const visit = (node: unknown, parentPath: string[], aliasRange?: vscode.Range, isAnchorTemplate?: boolean) => {
+      if (!yaml.isMap(node) || visiting.has(node)) {
+        return;
+      }
+      visiting.add(node);
       
-      // 키-값 쌍 찾기
-      const match = line.match(/^(\s*)([^:]+):\s*(.*)?$/);
-      if (match) {
-        const indentLevel = match[1].length;
-        const key = match[2].trim();
-        const value = match[3] ? match[3].trim() : '';
+      const merges: yaml.Alias[] = [];
+      for (const pair of node.items) {
+        const keyNode = pair.key as yaml.Node;
+        const valueNode = pair.value as yaml.Node | null;
+        if (!yaml.isScalar(keyNode) || !keyNode.range) {
+          continue;
+        }
         
-        // 들여쓰기 기반으로 키 스택 관리
-        while (keyStack.length > 0 && indentLevel <= keyStack.length * 2) {
-          keyStack.pop();
+        // 병합 키는 명시적인 키를 모두 기록한 뒤에 처리 (명시적인 키가 우선)
+        if (content.substring(keyNode.range[0], keyNode.range[1]) === '<<') {
+          if (yaml.isAlias(valueNode)) {
+            merges.push(valueNode);
+          } else if (yaml.isSeq(valueNode)) {
+            valueNode.items.forEach(item => yaml.isAlias(item) && merges.push(item));
+          }
+          continue;
         }
         
-        keyStack.push(key);
+        const keyPath = [...parentPath, String(keyNode.value)];
+        const target = yaml.isAlias(valueNode) ? valueNode.resolve(doc) : valueNode;
+        const isTemplate = isAnchorTemplate || (yaml.isMap(target) && target === valueNode && aliasedNodes.has(target));
+        let position: KeyPosition;
+        
+        if (aliasRange) {
+          // 별칭 안의 키는 파일에 적힌 위치가 없으므로 별칭 위치와 앵커 쪽 키 위치
+          position = { keyRange: aliasRange, valueRange: aliasRange, aliasRange, anchorSource: toPosition(keyNode, valueNode) };
+        } else if (yaml.isAlias(valueNode)) {
+          position = { ...toPosition(keyNode, valueNode), anchorSource: anchorSources.get(target) };
+        } else {
+          position = { ...toPosition(keyNode, valueNode), isAnchorTemplate: isTemplate };
+        }
         
-        // 값이 비어 있지 않으면 완전한 키 경로를 기록
-        if (value !== '' && value !== '~') {
-          const fullKey = keyStack.join('.');
-          keyPositions.set(fullKey, i + 1); // 1-based 라인 번호
+        const pathId = keyPath.join('\n');
+        if (!keyPositions.has(pathId)) {
+          keyPositions.set(pathId, position);
         }
+        
+        const childAliasRange = aliasRange || (yaml.isAlias(valueNode) ? toRange(valueNode.range![0], valueNode.range![1]) : undefined);
+        visit(target, keyPath, childAliasRange, !aliasRange && isTemplate);
       }
-    }
+      
+      // 먼저 나온 병합 대상이 우선
+      for (const alias of merges) {
+        visit(alias.resolve(doc), parentPath, aliasRange || toRange(alias.range![0], alias.range![1]), isAnchorTemplate);
+      }
+      
+      visiting.delete(node);
+    };
     
+    visit(doc.contents, []);
     return keyPositions;
   }
   
   /**
    * YAML 파싱에 실패한 경우 부분적으로 파싱 시도
    */
-  private attemptPartialParsing(content: string, filePath: string, lang?: string): void {
+  private attemptPartialParsing(entries: I18nEntry[], content: string, filePath: string, lang?: string): void {
     // 각 섹션별로 파싱 시도
     const lines = content.split('\n');
     let currentSections: string[] = [];
@@ -300,7 +493,7 @@ export class I18nLocalesScanner {
           const processedValue = this.processValue(valueStr.trim());
           if (processedValue !== null) {
             const fullKey = [...currentSections, cleanKey].join('.');
-            this.i18nEntries.push({
+            entries.push({
               key: fullKey,
               value: processedValue,
               file: filePath,
@@ -354,7 +547,15 @@ export class I18nLocalesScanner {
   /**
    * 중첩된 YAML 객체를 평탄화
    */
-  private flattenYaml(obj: any, prefix: string, filePath: string, lang?: string, keyPositions?: Map<string, number>): void {
+  private flattenYaml(
+    entries: I18nEntry[],
+    obj: any,
+    prefix: string,
+    filePath: string,
+    lang?: string,
+    keyPositions?: Map<string, KeyPosition>,
+    yamlPath: string[] = []
+  ): void {
     if (!obj || typeof obj !== 'object') {
       return;
     }
@@ -369,9 +570,9 @@ export class I18nLocalesScanner {
     if (prefix === '') {
       // 루트 레벨 키가 언어 코드인 경우 (ko: { ticket: { ... } })
       for (const key in obj) {
-        if (this.isLanguageCode(key) && typeof obj[key] === 'object') {
+        if (this.isLanguageCode(key) && obj[key] !== null && typeof obj[key] === 'object') {
           // 언어 코드를 prefix 없이 하위 객체로 직접 처리
-          this.flattenYaml(obj[key], '', filePath, key.toLowerCase(), keyPositions);
+          this.flattenYaml(entries, obj[key], '', filePath, normalizeLocaleCode(key), keyPositions, [key]);
           delete obj[key]; // 처리 후 제거하여 중복 방지
         }
       }
@@ -388,9 +589,17 @@ export class I18nLocalesScanner {
         // 중복 키 부분 정규화
         const normalizedKey = this.normalizeDuplicateKeyParts(newKey);
         
+        // 파일에 적힌 키 경로 (위치 조회용)
+        const keyPath = [...yamlPath, key];
+        const keyPosition = keyPositions ? keyPositions.get(keyPath.join('\n')) : undefined;
+        
+        // 복수형 해시는 하나의 키로 처리 (inbox.messages: { one: ..., other: ... })
+        if (isPluralHash(value)) {
+          entries.push(this.createPluralEntry(normalizedKey, value, filePath, lang, keyPosition));
+        }
         // 값이 객체인 경우 재귀 처리
-        if (value !== null && typeof value === 'object') {
-          this.flattenYaml(value, normalizedKey, filePath, lang, keyPositions);
+        else if (value !== null && typeof value === 'object') {
+          this.flattenYaml(entries, value, normalizedKey, filePath, lang, keyPositions, keyPath);
         } 
         // 값이 primitive 타입인 경우 항목 추가
         else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
@@ -400,15 +609,12 @@ export class I18nLocalesScanner {
             continue;
           }
           
-          // 키 위치 확인 (정확한 라인 번호)
-          let fileLine = this.findLineNumber(keyPositions, normalizedKey);
-          
-          this.i18nEntries.push({
+          entries.push({
             key: normalizedKey,
             value: String(value),
             file: filePath,
             lang,
-            fileLine
+            ...this.getPositionFields(keyPosition)
           });
         }
       }
@@ -416,61 +622,174 @@ export class I18nLocalesScanner {
   }
   
   /**
-   * 언어 코드인지 확인
+   * 복수형 해시로 항목 생성 (대표 값은 other 형태)
+   */
+  private createPluralEntry(
+    key: string,
+    value: unknown,
+    filePath: string,
+    lang?: string,
+    keyPosition?: KeyPosition
+  ): I18nEntry {
+    const hash = value !== null && typeof value === 'object' ? value as { [category: string]: unknown } : {};
+    const plurals: { [category: string]: string } = {};
+    PLURAL_CATEGORIES.forEach(category => {
+      if (hash[category] !== undefined && hash[category] !== null) {
+        plurals[category] = String(hash[category]);
+      }
+    });
+    
+    return {
+      key,
+      value: plurals.other !== undefined ? plurals.other : plurals[Object.keys(plurals)[0]] || '',
+      file: filePath,
+      lang,
+      ...this.getPositionFields(keyPosition),
+      plurals
+    };
+  }
+  
+  /**
+   * 언어 코드인지 확인 (ko, pt-BR, zh-TW, sr-Latn 등)
    */
   private isLanguageCode(key: string): boolean {
-    return /^[a-z]{2}$/i.test(key);
+    return isLocaleCode(key);
   }
   
   /**
-   * 키에 대한 라인 번호 찾기
+   * 항목의 위치 필드 (위치를 모르면 빈 객체)
    */
-  private findLineNumber(keyPositions?: Map<string, number>, key?: string): number | undefined {
-    if (!keyPositions || !key) {
-      return undefined;
-    }
-    
-    // 정확한 키 매칭
-    if (keyPositions.has(key)) {
-      return keyPositions.get(key);
+  private getPositionFields(
+    keyPosition?: KeyPosition
+  ): Pick<I18nEntry, 'fileLine' | 'keyRange' | 'valueRange' | 'anchorSource' | 'aliasRange' | 'isAnchorTemplate'> {
+    if (!keyPosition) {
+      return {};
     }
     
-    // 부분 키로 시도
-    if (key.includes('.')) {
-      const keyParts = key.split('.');
-      const lastTwoParts = keyParts.slice(-2).join('.');
-      
-      // 역순으로 매칭 시도 (더 긴 매치 우선)
-      for (const [posKey, posLine] of keyPositions.entries()) {
-        if (posKey.endsWith(lastTwoParts)) {
-          return posLine;
-        }
-      }
-      
-      // 마지막 부분만 시도
-      const lastPart = keyParts[keyParts.length - 1];
-      for (const [posKey, posLine] of keyPositions.entries()) {
-        if (posKey.endsWith(lastPart)) {
-          return posLine;
-        }
-      }
-    }
-    
-    return undefined;
+    return {
+      fileLine: keyPosition.keyRange.start.line + 1,
+      keyRange: keyPosition.keyRange,
+      valueRange: keyPosition.valueRange,
+      anchorSource: keyPosition.anchorSource,
+      aliasRange: keyPosition.aliasRange,
+      isAnchorTemplate: keyPosition.isAnchorTemplate || undefined
+    };
   }
   
   /**
    * 모든 I18n 항목 가져오기
    */
   public getEntries(): I18nEntry[] {
+    if (!this.i18nEntries) {
+      this.i18nEntries = this.keyIndex.getAllEntries();
+    }
     return this.i18nEntries;
   }
   
+  /**
+   * 감지된 언어 코드 목록 가져오기 (자주 사용되는 언어 우선)
+   */
+  public getLanguageCodes(): string[] {
+    // 자주 사용되는 언어 코드를 우선 정렬
+    const priorityLangs = ['ko', 'en', 'ja'];
+    const getPriority = (lang: string) => {
+      const index = priorityLangs.indexOf(getBaseLanguage(lang));
+      return index !== -1 ? index : priorityLangs.length;
+    };
+    
+    // 우선 순위 언어 먼저, 나머지는 알파벳 순 (지역 변형은 기본 언어 바로 뒤: en, en-GB, en-US)
+    return this.keyIndex.getLanguages().sort((a, b) =>
+      getPriority(a) - getPriority(b)
+      || getBaseLanguage(a).localeCompare(getBaseLanguage(b))
+      || a.length - b.length
+      || a.localeCompare(b)
+    );
+  }
+  
+  /**
+   * 색인된 키의 수
+   */
+  public getKeyCount(): number {
+    return this.keyIndex.size;
+  }
+  
   /**
    * 특정 언어의 I18n 항목 가져오기
    */
   public getEntriesByLang(lang: string): I18nEntry[] {
-    return this.i18nEntries.filter(entry => entry.lang === lang);
+    return this.getEntries().filter(entry => entry.lang === lang);
+  }
+  
+  /**
+   * 키가 존재하는지 확인
+   */
+  public hasKey(key: string): boolean {
+    return this.keyIndex.has(key);
+  }
+  
+  /**
+   * 키의 모든 언어 항목 가져오기
+   */
+  public getEntriesForKey(key: string): I18nEntry[] {
+    return this.keyIndex.getEntries(key);
+  }
+  
+  /**
+   * 키가 정의된 모든 항목 가져오기 (여러 파일에 같은 언어로 정의되어 가려진 항목 포함)
+   */
+  public getDefinitionsForKey(key: string): I18nEntry[] {
+    return this.keyIndex.getDefinitions(key);
+  }
+  
+  /**
+   * 키의 특정 언어 항목 가져오기
+   */
+  public getEntry(key: string, lang: string): I18nEntry | undefined {
+    return this.keyIndex.getEntry(key, lang);
+  }
+  
+  /**
+   * 키가 정의된 언어 코드 목록
+   */
+  public getKeyLocales(key: string): string[] {
+    return this.keyIndex.getLocales(key);
+  }
+  
+  /**
+   * 네임스페이스 바로 아래의 세그먼트 목록
+   */
+  public listChildKeys(prefix: string): I18nKeySegment[] {
+    return this.keyIndex.listChildren(prefix);
+  }
+  
+  /**
+   * 키와 하위 키가 모두 앵커 템플릿(defaults: &defaults) 안에만 있는지 확인
+   */
+  public isAnchorTemplateKey(key: string): boolean {
+    const entries = this.keyIndex.findEntriesWithPrefix(key);
+    return entries.length > 0 && entries.every(entry => entry.isAnchorTemplate);
+  }
+  
+  /**
+   * 네임스페이스 하위의 모든 항목 가져오기
+   */
+  public findEntriesWithPrefix(prefix: string): I18nEntry[] {
+    return this.keyIndex.findEntriesWithPrefix(prefix);
+  }
+  
+  /**
+   * 네임스페이스 하위의 모든 정의 가져오기 (가려진 항목 포함)
+   */
+  public findDefinitionsWithPrefix(prefix: string): I18nEntry[] {
+    return this.keyIndex.findDefinitionsWithPrefix(prefix);
+  }
+  
+  /**
+   * 문자열로 시작하는 키의 항목 가져오기 (세그먼트 중간에서 끝나는 접두사도 허용)
+   */
+  public findEntriesStartingWith(text: string): I18nEntry[] {
+    const namespace = text.includes('.') ? text.substring(0, text.lastIndexOf('.')) : '';
+    return this.keyIndex.findEntriesWithPrefix(namespace).filter(entry => entry.key.startsWith(text));
   }
   
   /**
@@ -478,20 +797,18 @@ export class I18nLocalesScanner {
    */
   public findByKey(key: string): I18nEntry[] {
     // 정확히 일치하는 항목 먼저 찾기
-    const exactMatches = this.i18nEntries.filter(entry => entry.key === key);
+    const exactMatches = this.keyIndex.getEntries(key);
     if (exactMatches.length > 0) {
       return exactMatches;
     }
-
+    
     // 동적 키 처리 (#{...} 형태의 변수가 포함된 경우)
     if (key.includes('#{')) {
       // 변수 부분 이전까지의 기본 키 추출
       const baseKey = key.split('#{')[0].replace(/\.$/, ''); // 마지막 점 제거
       if (baseKey.length > 0) {
         // 기본 키로 시작하는 항목 검색
-        const baseMatches = this.i18nEntries.filter(entry => 
-          entry.key.startsWith(baseKey)
-        );
+        const baseMatches = this.findEntriesStartingWith(baseKey);
         
         if (baseMatches.length > 0) {
           // 키 길이가 가장 비슷한 것 하나만 반환
@@ -501,7 +818,7 @@ export class I18nLocalesScanner {
         }
       }
     }
-
+    
     // 관련 키가 없는 경우 빈 배열 반환
     return [];
   }
@@ -512,48 +829,91 @@ export class I18nLocalesScanner {
   public findExactKey(key: string, preferredLang?: string): I18nEntry | undefined {
     // 선호하는 언어가 있으면 해당 언어로 먼저 찾기
     if (preferredLang) {
-      const preferredEntry = this.i18nEntries.find(
-        entry => entry.key === key && entry.lang === preferredLang
-      );
+      const preferredEntry = this.keyIndex.getEntry(key, preferredLang);
       if (preferredEntry) {
         return preferredEntry;
       }
     }
     
-    // 선호하는 언어로 찾지 못한 경우 모든 항목에서 검색
-    return this.i18nEntries.find(entry => entry.key === key);
+    // 선호하는 언어로 찾지 못한 경우 모든 언어에서 검색
+    return this.keyIndex.getEntries(key)[0];
+  }
+  
+  /**
+   * 새 키를 추가하기에 가장 적합한 로케일 파일 찾기
+   * (같은 언어의 항목 중 키의 부모 경로가 가장 깊게 일치하는 파일)
+   */
+  public findBestFileForKey(key: string, lang: string): string | undefined {
+    const keyParts = key.split('.');
+    const fileScores = new Map<string, { depth: number, count: number }>();
+    
+    for (const entry of this.getEntries()) {
+      if (entry.lang !== lang) {
+        continue;
+      }
+      
+      // 공통 부모 경로 깊이 계산
+      const entryParts = entry.key.split('.');
+      let depth = 0;
+      while (depth < keyParts.length - 1 && depth < entryParts.length && keyParts[depth] === entryParts[depth]) {
+        depth++;
+      }
+      
+      const score = fileScores.get(entry.file) || { depth: 0, count: 0 };
+      score.depth = Math.max(score.depth, depth);
+      score.count++;
+      fileScores.set(entry.file, score);
+    }
+    
+    let bestFile: string | undefined;
+    let bestScore = { depth: -1, count: 0 };
+    
+    fileScores.forEach((score, file) => {
+      // 일치하는 부모가 없으면 언어 코드 이름의 파일(ko.yml)을 우선
+      const isDefaultFile = score.depth === 0
+        && path.basename(file).replace(/\.ya?ml$/i, '') === lang;
+      const depth = isDefaultFile ? 0.5 : score.depth;
+      
+      if (depth > bestScore.depth || (depth === bestScore.depth && score.count > bestScore.count)) {
+        bestFile = file;
+        bestScore = { depth, count: score.count };
+      }
+    });
+    
+    return bestFile;
   }
   
   /**
-   * 중복 항목 제거
+   * 파일 안의 중복 항목 제거 (다른 파일과의 중복은 색인에서 처리)
    */
-  private removeDuplicateEntries(): void {
+  private removeDuplicateEntries(entries: I18nEntry[]): I18nEntry[] {
     const uniqueMap = new Map<string, I18nEntry>();
     
     // 언어 코드와 키로 유니크한 항목 저장
-    for (const entry of this.i18nEntries) {
+    for (const entry of entries) {
       const uniqueKey = `${entry.lang || 'unknown'}_${entry.key}`;
       uniqueMap.set(uniqueKey, entry);
     }
     
-    this.i18nEntries = Array.from(uniqueMap.values());
+    return Array.from(uniqueMap.values());
   }
   
   /**
    * 키에서 언어 코드 정규화
    */
-  private normalizeI18nKeys(): void {
+  private normalizeI18nKeys(entries: I18nEntry[]): I18nEntry[] {
     const updatedEntries: I18nEntry[] = [];
     
-    for (const entry of this.i18nEntries) {
-      // 키가 언어 코드로 시작하는 경우 (en.ticket.action.retry1)
-      const keyMatch = entry.key.match(/^([a-z]{2})\.(.+)$/i);
-      if (keyMatch) {
-        const langFromKey = keyMatch[1].toLowerCase();
+    for (const entry of entries) {
+      // 키가 언어 코드로 시작하는 경우 (en.ticket.action.retry1, pt-BR.ticket.title)
+      const keyMatch = entry.key.match(/^([^.]+)\.(.+)$/);
+      if (keyMatch && this.isLanguageCode(keyMatch[1])) {
+        const langFromKey = normalizeLocaleCode(keyMatch[1]);
         const normalizedKey = keyMatch[2];
         
-        // 언어 코드가 없거나 키에서 추출한 코드와 다른 경우에만 업데이트
-        if (!entry.lang || entry.lang !== langFromKey) {
+        // 언어 코드가 없거나 같은 언어 코드가 키에 중복된 경우에만 업데이트
+        // (다른 언어의 파일에 있는 "id.", "no." 같은 네임스페이스는 그대로 둠)
+        if (!entry.lang || entry.lang === langFromKey) {
           updatedEntries.push({
             ...entry,
             key: normalizedKey,
@@ -566,6 +926,6 @@ export class I18nLocalesScanner {
       updatedEntries.push(entry);
     }
     
-    this.i18nEntries = updatedEntries;
+    return updatedEntries;
   }
 } 
\ No newline at end of file
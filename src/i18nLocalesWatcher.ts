@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { I18nLocalesScanner } from './i18nLocalesScanner';
+
+// 저장되지 않은 로케일 문서 변경 후 재색인까지의 지연 시간 (ms)
+const REINDEX_DELAY = 300;
+
+export class I18nLocalesWatcher implements vscode.Disposable {
+  private outputChannel: vscode.OutputChannel;
+  private fileWatchers: vscode.FileSystemWatcher[] = [];
+  private disposables: vscode.Disposable[] = [];
+  private pendingReindexes = new Map<string, NodeJS.Timeout>();
+  
+  constructor(private localesScanner: I18nLocalesScanner, outputChannel: vscode.OutputChannel) {
+    this.outputChannel = outputChannel;
+    
+    this.createFileWatchers();
+    
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleReindex(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.handleDocumentClose(document)),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        // 로케일 경로가 바뀌면 감시 대상을 다시 만들고 전체 스캔
+        if (event.affectsConfiguration('rails-i18n.localesPaths')) {
+          this.createFileWatchers();
+          this.localesScanner.scanLocaleFiles().catch(err => {
+            console.error('로케일 경로 변경 후 스캔 중 오류 발생:', err);
+          });
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.createFileWatchers())
+    );
+  }
+  
+  /**
+   * 로그 출력
+   */
+  private log(message: string): void {
+    console.log(message);
+    this.outputChannel.appendLine(message);
+  }
+  
+  /**
+   * 설정된 모든 로케일 경로에 파일 감시자 생성
+   */
+  private createFileWatchers(): void {
+    this.disposeFileWatchers();
+    
+    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+    const localesPaths = this.localesScanner.getLocalesPaths();
+    
+    for (const workspaceFolder of workspaceFolders) {
+      for (const localesPath of localesPaths) {
+        const pattern = new vscode.RelativePattern(workspaceFolder, `${localesPath}/**/*.{yml,yaml}`);
+        const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        
+        watcher.onDidCreate(uri => this.reindexFile(uri));
+        watcher.onDidChange(uri => this.reindexFile(uri));
+        watcher.onDidDelete(uri => {
+          this.log(`로케일 파일 삭제 감지: ${uri.fsPath}`);
+          this.localesScanner.removeFile(uri.fsPath);
+        });
+        
+        this.fileWatchers.push(watcher);
+      }
+    }
+  }
+  
+  /**
+   * 디스크에서 변경된 파일 재색인
+   */
+  private reindexFile(uri: vscode.Uri): void {
+    // 편집 중인 문서가 있으면 화면의 내용을 우선
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === uri.fsPath);
+    if (openDocument && openDocument.isDirty) {
+      return;
+    }
+    
+    this.localesScanner.rescanFile(uri.fsPath).catch(err => {
+      console.error(`로케일 파일 재색인 중 오류 발생: ${uri.fsPath}`, err);
+    });
+  }
+  
+  /**
+   * 저장되지 않은 로케일 문서 변경 시 일정 시간 후에 재색인
+   */
+  private scheduleReindex(document: vscode.TextDocument): void {
+    if (document.uri.scheme !== 'file' || !this.localesScanner.isLocaleFilePath(document.uri.fsPath)) {
+      return;
+    }
+    
+    const filePath = document.uri.fsPath;
+    const pending = this.pendingReindexes.get(filePath);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    
+    this.pendingReindexes.set(filePath, setTimeout(() => {
+      this.pendingReindexes.delete(filePath);
+      this.localesScanner.rescanFile(filePath, document.getText()).catch(err => {
+        console.error(`로케일 문서 재색인 중 오류 발생: ${filePath}`, err);
+      });
+    }, REINDEX_DELAY));
+  }
+  
+  /**
+   * 저장하지 않고 닫은 로케일 문서는 디스크 내용으로 되돌림
+   */
+  private handleDocumentClose(document: vscode.TextDocument): void {
+    if (document.uri.scheme !== 'file' || !this.localesScanner.isLocaleFilePath(document.uri.fsPath)) {
+      return;
+    }
+    
+    const filePath = document.uri.fsPath;
+    const pending = this.pendingReindexes.get(filePath);
+    if (pending) {
+      clearTimeout(pending);
+      this.pendingReindexes.delete(filePath);
+    }
+    
+    if (document.isDirty) {
+      this.localesScanner.rescanFile(filePath).catch(err => {
+        console.error(`로케일 파일 재색인 중 오류 발생: ${filePath}`, err);
+      });
+    }
+  }
+  
+  /**
+   * 파일 감시자 해제
+   */
+  private disposeFileWatchers(): void {
+    this.fileWatchers.forEach(watcher => watcher.dispose());
+    this.fileWatchers = [];
+  }
+  
+  /**
+   * 리소스 해제
+   */
+  public dispose(): void {
+    this.pendingReindexes.forEach(pending => clearTimeout(pending));
+    this.pendingReindexes.clear();
+    this.disposeFileWatchers();
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { getBaseLanguage } from './i18nLocale';
+
+/**
+ * CLDR 복수형 카테고리 (표시 순서)
+ */
+export const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+// 언어별로 필요한 CLDR 복수형 카테고리 (rails-i18n 복수형 규칙 기준)
+const PLURAL_RULE_GROUPS: Array<{ categories: string[], languages: string[] }> = [
+  { categories: ['other'], languages: ['ja', 'ko', 'zh', 'th', 'vi', 'id', 'ms', 'km', 'lo', 'my'] },
+  {
+    categories: ['one', 'other'],
+    languages: [
+      'en', 'de', 'nl', 'sv', 'da', 'no', 'nb', 'nn', 'fi', 'et', 'it', 'es', 'pt', 'fr', 'el', 'hu',
+      'bg', 'ca', 'eu', 'gl', 'tr', 'ka', 'kk', 'hi', 'bn', 'ur', 'fa', 'az', 'uz', 'sq', 'mk', 'is'
+    ]
+  },
+  { categories: ['zero', 'one', 'other'], languages: ['lv'] },
+  { categories: ['one', 'few', 'other'], languages: ['cs', 'sk', 'hr', 'bs', 'sr', 'ro'] },
+  { categories: ['one', 'few', 'many', 'other'], languages: ['ru', 'uk', 'be', 'pl', 'lt'] },
+  { categories: ['one', 'two', 'other'], languages: ['he'] },
+  { categories: ['one', 'two', 'few', 'other'], languages: ['sl'] },
+  { categories: ['one', 'two', 'few', 'many', 'other'], languages: ['ga', 'mt'] },
+  { categories: ['zero', 'one', 'two', 'few', 'many', 'other'], languages: ['ar', 'cy'] }
+];
+
+/**
+ * 복수형 해시인지 확인 (예: { one: "1 message", other: "%{count} messages" })
+ */
+export function isPluralHash(value: unknown): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  
+  const hash = value as { [key: string]: unknown };
+  const keys = Object.keys(hash);
+  if (keys.length === 0 || !keys.every(key => PLURAL_CATEGORIES.includes(key))) {
+    return false;
+  }
+  
+  // 하위 값이 모두 문자열이고 one 또는 other 형태가 있어야 복수형으로 취급
+  return (keys.includes('one') || keys.includes('other'))
+    && keys.every(key => hash[key] === null || ['string', 'number', 'boolean'].includes(typeof hash[key]));
+}
+
+/**
+ * 로케일 언어에 필요한 복수형 카테고리 (규칙을 모르는 언어는 undefined)
+ */
+export function getRequiredPluralCategories(locale: string): string[] | undefined {
+  const lang = getBaseLanguage(locale);
+  const group = PLURAL_RULE_GROUPS.find(ruleGroup => ruleGroup.languages.includes(lang));
+  return group ? group.categories : undefined;
+}
+
+/**
+ * 로케일 언어에 필요하지만 정의되지 않은 복수형 카테고리
+ */
+export function getMissingPluralCategories(locale: string, plurals: { [category: string]: string }): string[] {
+  const required = getRequiredPluralCategories(locale) || [];
+  return required.filter(category => plurals[category] === undefined);
+}
\ No newline at end of file
@@ -1,11 +1,23 @@
 import * as vscode from 'vscode';
 import { I18nLocalesScanner, I18nEntry } from './i18nLocalesScanner';
+import { I18nCall, I18nCallDefaults, parseCallOptions } from './i18nCallFinder';
+import { getLazyLookupScope, isLazyKey, resolveLazyKey } from './i18nLazyLookup';
+import { getLocaleFlag, isLocaleCode, normalizeLocaleCode } from './i18nLocale';
+import { I18nFallbacks } from './i18nFallbacks';
+import { RESERVED_OPTION_NAMES } from './i18nInterpolation';
+import { findActiveRecordLookups, getEnclosingModelClass } from './i18nActiveRecord';
+import { getDocumentI18nCalls, isErbDocument } from './i18nDocumentCalls';
+import { findStatementRange } from './i18nRubyTokenizer';
 
 export class I18nProvider implements vscode.CompletionItemProvider, vscode.HoverProvider, vscode.DefinitionProvider {
   private outputChannel: vscode.OutputChannel;
   private debugMode: boolean = false;
   
-  constructor(private localesScanner: I18nLocalesScanner, outputChannel: vscode.OutputChannel) {
+  constructor(
+    private localesScanner: I18nLocalesScanner,
+    outputChannel: vscode.OutputChannel,
+    private fallbacks: I18nFallbacks
+  ) {
     this.outputChannel = outputChannel;
     this.updateDebugMode();
   }
@@ -32,31 +44,7 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
    * 감지된 언어 코드 목록 가져오기
    */
   private getLanguageCodes(): string[] {
-    // 스캔된 항목들에서 언어 코드 추출
-    const entries = this.localesScanner.getEntries();
-    const langSet = new Set<string>();
-    
-    // 언어 코드 수집
-    entries.forEach(entry => {
-      if (entry.lang) {
-        langSet.add(entry.lang);
-      }
-    });
-    
-    // 자주 사용되는 언어 코드를 우선 정렬
-    const priorityLangs = ['ko', 'en', 'ja'];
-    const result: string[] = [];
-    
-    // 우선 순위 언어 먼저 추가
-    priorityLangs.forEach(lang => {
-      if (langSet.has(lang)) {
-        result.push(lang);
-        langSet.delete(lang);
-      }
-    });
-    
-    // 나머지 언어 알파벳 순으로 추가
-    return result.concat(Array.from(langSet).sort());
+    return this.localesScanner.getLanguageCodes();
   }
   
   /**
@@ -77,16 +65,21 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
     
     this.log(`자동 완성: 현재 라인 - ${lineText}`, true);
     
-    // I18n.t 또는 t 메소드 호출 여부 확인
-    const isI18nCall = /I18n\.t\(['"]$/.test(linePrefix) || /t\(['"]$/.test(linePrefix);
+    // 키 다음의 인자 목록 안이면 보간 변수를 키워드 인자로 제안 (t('key', |))
+    const argsCall = this.findArgsCallAtPosition(document, position);
+    if (argsCall) {
+      const argsBeforeCursor = argsCall.args!.substring(0, document.offsetAt(position) - argsCall.argsStart!);
+      return this.createVariableCompletionItems(document, position, argsCall.key, argsBeforeCursor);
+    }
     
-    if (!isI18nCall && !linePrefix.includes('I18n') && !linePrefix.includes('t(')) {
+    // t, translate, t! 메소드의 키 문자열 안인지 확인 (따옴표 이후 입력한 부분 추출)
+    const callMatch = linePrefix.match(/\b(?:t|translate)!?(?:\s*\(\s*|\s+)(?:"([^"]*)|'([^']*))$/);
+    if (!callMatch) {
       this.log('자동 완성: I18n 호출이 아님', this.debugMode);
       return undefined;
     }
     
-    const entries = this.localesScanner.getEntries();
-    if (entries.length === 0) {
+    if (this.localesScanner.getKeyCount() === 0) {
       this.log('자동 완성: 항목 없음, 스캔 시작', true);
       this.localesScanner.scanLocaleFiles();
       return new vscode.CompletionList([new vscode.CompletionItem(
@@ -95,82 +88,186 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
       )]);
     }
     
-    this.log(`자동 완성: ${entries.length}개 항목 발견`, this.debugMode);
+    const typedKey = callMatch[1] !== undefined ? callMatch[1] : callMatch[2];
+    const lastDot = typedKey.lastIndexOf('.');
+    
+    // 이미 입력한 키 부분을 교체하여 중복 입력 방지
+    const range = new vscode.Range(position.translate(0, -typedKey.length), position);
+    
+    // 입력한 부분 중 마지막 점까지는 그대로 두고 다음 세그먼트만 제안
+    const insertPrefix = typedKey.substring(0, lastDot + 1);
+    let namespace = typedKey.substring(0, Math.max(lastDot, 0));
+    
+    // lazy lookup (t('.key')) 입력 중이면 현재 파일 범위 아래에서 제안
+    if (isLazyKey(typedKey)) {
+      const scope = this.getLazyScope(document, position);
+      if (!scope) {
+        this.log('자동 완성: lazy lookup 범위를 알 수 없음', this.debugMode);
+        return undefined;
+      }
+      namespace = `${scope}${typedKey.substring(0, lastDot)}`;
+    }
+    
+    const items = this.createSegmentCompletionItems(namespace, insertPrefix, range);
+    this.log(`자동 완성: "${namespace}" 아래 ${items.length}개 항목 제안`, this.debugMode);
     
-    return this.createCompletionItems(entries);
+    return items;
   }
   
   /**
-   * 자동 완성 항목 생성
+   * 커서가 인자 목록 안에 있는 호출 (중첩된 호출이면 가장 안쪽 호출)
    */
-  private createCompletionItems(entries: I18nEntry[]): vscode.CompletionItem[] {
-    const completionItems: vscode.CompletionItem[] = [];
-    const languageCodes = this.getLanguageCodes();
+  private findArgsCallAtPosition(document: vscode.TextDocument, position: vscode.Position): I18nCall | undefined {
+    const offset = document.offsetAt(position);
+    return getDocumentI18nCalls(document)
+      .filter(call => call.args !== undefined && call.argsStart !== undefined
+        && offset >= call.argsStart && offset <= call.argsStart + call.args.length)
+      .reduce<I18nCall | undefined>((inner, call) => !inner || call.argsStart! > inner.argsStart! ? call : inner, undefined);
+  }
+  
+  /**
+   * 아직 전달하지 않은 보간 변수로 키워드 인자 자동 완성 항목 생성
+   */
+  private createVariableCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    rawKey: string,
+    args: string
+  ): vscode.CompletionItem[] {
+    // 입력 중인 인자 이름이 아니면 (값 입력 중) 제안하지 않음
+    const currentArg = args.substring(args.lastIndexOf(',') + 1);
+    const nameMatch = currentArg.match(/^\s*(\w*)$/);
+    if (!nameMatch) {
+      return [];
+    }
     
-    // 언어별로 항목 정렬 및 분류
-    const sortedEntries = this.sortEntriesByLanguage(entries, languageCodes);
+    const key = this.resolveKey(document, position, rawKey);
+    const entries = this.sortEntriesByLanguage(this.localesScanner.getEntriesForKey(key), this.getLanguageCodes());
+    const passedOptions = parseCallOptions(args).options;
+    const range = new vscode.Range(position.translate(0, -nameMatch[1].length), position);
     
-    // 로케일 키 기반으로 자동 완성 항목 생성
-    sortedEntries.forEach(entry => {
-      const item = new vscode.CompletionItem(entry.key, vscode.CompletionItemKind.Text);
-      
-      // 언어 정보 표시
-      const langInfo = entry.lang ? `[${entry.lang}] ` : '';
-      
-      // 키 값 미리보기 추가
-      item.detail = `${langInfo}${entry.value}`;
-      item.documentation = new vscode.MarkdownString(`**${entry.key}**\n\n${entry.value}\n\n*파일: ${entry.file}*`);
-      
-      // 설정된 언어 항목의 순위 조정
-      if (entry.lang) {
-        const langIndex = languageCodes.indexOf(entry.lang);
-        if (langIndex !== -1) {
-          item.sortText = `${langIndex}-${entry.key}`;
-        } else {
-          item.sortText = `${languageCodes.length}-${entry.key}`;
+    // 변수별로 사용하는 언어의 값 예시 수집
+    const variables = new Map<string, I18nEntry>();
+    entries.forEach(entry => {
+      const entryVariables = entry.plurals ? ['count', ...(entry.variables || [])] : entry.variables || [];
+      entryVariables.forEach(variable => {
+        if (!variables.has(variable)) {
+          variables.set(variable, entry);
         }
-      } else {
-        item.sortText = `${languageCodes.length + 1}-${entry.key}`;
+      });
+    });
+    
+    const completionItems: vscode.CompletionItem[] = [];
+    variables.forEach((entry, variable) => {
+      if (passedOptions.has(variable) || RESERVED_OPTION_NAMES.includes(variable)) {
+        return;
       }
       
+      const item = new vscode.CompletionItem(`${variable}:`, vscode.CompletionItemKind.Variable);
+      item.detail = `${key} 보간 변수`;
+      item.documentation = new vscode.MarkdownString(`**${entry.lang || '언어 없음'}**: ${entry.value}`);
+      item.insertText = `${variable}: `;
+      item.sortText = `0-${variable}`;
+      item.range = range;
       completionItems.push(item);
     });
     
+    this.log(`자동 완성: "${key}"의 보간 변수 ${completionItems.length}개 제안`, this.debugMode);
     return completionItems;
   }
   
   /**
-   * 언어 코드별로 항목 정렬
+   * 네임스페이스 바로 아래 세그먼트로 자동 완성 항목 생성
    */
-  private sortEntriesByLanguage(entries: I18nEntry[], languageCodes: string[]): I18nEntry[] {
-    // 설정된 언어 코드로 항목 정렬
-    const entriesByLang: { [lang: string]: I18nEntry[] } = {};
-    const otherEntries: I18nEntry[] = [];
+  private createSegmentCompletionItems(
+    namespace: string,
+    insertPrefix: string,
+    range: vscode.Range
+  ): vscode.CompletionItem[] {
+    const completionItems: vscode.CompletionItem[] = [];
+    const config = vscode.workspace.getConfiguration('rails-i18n');
+    const excludeAnchorTemplates = config.get<boolean>('completion.excludeAnchorTemplates', true);
     
-    // 언어별로 분류
-    entries.forEach(entry => {
-      if (entry.lang && languageCodes.includes(entry.lang)) {
-        if (!entriesByLang[entry.lang]) {
-          entriesByLang[entry.lang] = [];
-        }
-        entriesByLang[entry.lang].push(entry);
-      } else {
-        otherEntries.push(entry);
+    for (const child of this.localesScanner.listChildKeys(namespace)) {
+      const insertKey = `${insertPrefix}${child.segment}`;
+      
+      // 별칭으로만 쓰이는 앵커 템플릿(defaults: &defaults)은 제안하지 않음
+      if (excludeAnchorTemplates && this.localesScanner.isAnchorTemplateKey(child.key)) {
+        continue;
       }
-    });
-    
-    // 설정된 언어 순서대로 항목 추가
-    const sortedEntries: I18nEntry[] = [];
-    languageCodes.forEach(lang => {
-      if (entriesByLang[lang]) {
-        sortedEntries.push(...entriesByLang[lang]);
+      
+      // 하위 키가 있는 세그먼트는 모듈 항목으로 제공하고 선택 후 다음 세그먼트 제안
+      if (child.childCount > 0) {
+        const item = new vscode.CompletionItem(child.segment, vscode.CompletionItemKind.Module);
+        item.detail = `${child.childCount}개 하위 키`;
+        item.insertText = `${insertKey}.`;
+        item.filterText = `${insertKey}.`;
+        item.sortText = `0-${child.segment}`;
+        item.range = range;
+        item.command = { command: 'editor.action.triggerSuggest', title: '다음 세그먼트 제안' };
+        completionItems.push(item);
+      }
+      
+      // 번역 키인 세그먼트는 모든 언어의 값을 보여주는 단일 항목으로 제공
+      if (child.isKey) {
+        completionItems.push(this.createKeyCompletionItem(child.key, child.segment, insertKey, range));
       }
+    }
+    
+    return completionItems;
+  }
+  
+  /**
+   * 번역 키 자동 완성 항목 생성
+   */
+  private createKeyCompletionItem(
+    key: string,
+    segment: string,
+    insertKey: string,
+    range: vscode.Range
+  ): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(segment, vscode.CompletionItemKind.Text);
+    const entries = this.sortEntriesByLanguage(this.localesScanner.getEntriesForKey(key), this.getLanguageCodes());
+    
+    // 첫 번째 (우선 순위가 가장 높은) 언어의 값 미리보기
+    if (entries.length > 0) {
+      const langInfo = entries[0].lang ? `[${entries[0].lang}] ` : '';
+      item.detail = `${langInfo}${entries[0].value}`;
+    }
+    
+    // 모든 언어의 값을 문서에 표시
+    const documentation = new vscode.MarkdownString(`**${key}**\n\n`);
+    entries.forEach(entry => {
+      const pluralInfo = entry.plurals ? ` (복수형: ${Object.keys(entry.plurals).join(', ')})` : '';
+      documentation.appendMarkdown(`- **${entry.lang || '언어 없음'}**${pluralInfo}: ${entry.value}\n`);
     });
     
-    // 기타 언어 항목 추가
-    sortedEntries.push(...otherEntries);
+    item.documentation = documentation;
+    item.insertText = insertKey;
+    item.filterText = insertKey;
+    item.sortText = `1-${segment}`;
+    item.range = range;
     
-    return sortedEntries;
+    return item;
+  }
+  
+  /**
+   * 언어 코드별로 항목 정렬
+   */
+  private sortEntriesByLanguage(entries: I18nEntry[], languageCodes: string[]): I18nEntry[] {
+    return entries.slice().sort((a, b) => this.getLanguageRank(a, languageCodes) - this.getLanguageRank(b, languageCodes));
+  }
+  
+  /**
+   * 언어 코드 순서에 따른 항목 순위 (언어 없는 항목은 마지막)
+   */
+  private getLanguageRank(entry: I18nEntry, languageCodes: string[]): number {
+    if (!entry.lang) {
+      return languageCodes.length + 1;
+    }
+    
+    const langIndex = languageCodes.indexOf(entry.lang);
+    return langIndex !== -1 ? langIndex : languageCodes.length;
   }
   
   /**
@@ -184,42 +281,31 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
     this.updateDebugMode();
     this.log('호버 호출됨', this.debugMode);
     
-    // 현재 라인 텍스트 가져오기
-    const lineText = document.lineAt(position).text;
-    
-    // I18n.t 호출 패턴이 있는지 먼저 확인
-    if (!lineText.includes('I18n.t') && !lineText.includes('t(')) {
+    // human_attribute_name, model_name.human, validates, errors.add의 번역 조회 또는 I18n.t 호출
+    const call = this.findActiveRecordLookupAtPosition(document, position) || this.findCallAtPosition(document, position);
+    if (!call) {
       this.log('호버: 매칭되는 I18n 호출이 없음', this.debugMode);
       return undefined;
     }
     
-    // 현재 위치의 단어 가져오기
-    const wordRange = document.getWordRangeAtPosition(position);
-    let wordUnderCursor = '';
-    if (wordRange) {
-      wordUnderCursor = document.getText(wordRange);
-    }
+    const rawKey = call.key;
     
-    // I18n.t 호출에서 키 추출
-    const key = this.extractKeyFromPosition(document, position, lineText, wordUnderCursor);
-    
-    if (!key) {
-      this.log('호버: I18n.t 호출은 발견했으나 키 추출 실패', this.debugMode);
-      return undefined;
-    }
+    // lazy lookup 키(.title)는 현재 파일 위치의 범위로 해석
+    const lazyScope = isLazyKey(rawKey) ? this.getLazyScope(document, position) : undefined;
+    const key = lazyScope ? `${lazyScope}${rawKey}` : rawKey;
     
     this.log(`호버: 키 "${key}" 검색 중`, this.debugMode);
     
     // 로케일 스캔 확인
-    const entries = this.localesScanner.getEntries();
-    if (entries.length === 0) {
+    if (this.localesScanner.getKeyCount() === 0) {
       this.log('호버: 항목 없음, 스캔 필요', true);
       const content = new vscode.MarkdownString('I18n 키를 스캔 중입니다. 명령 팔레트에서 "Rails I18n: 키 스캔"을 실행해보세요.');
       return new vscode.Hover(content);
     }
     
     // 정확히 일치하는 키 먼저 검색
-    let matchedEntries = entries.filter(entry => entry.key === key);
+    let matchedEntries = this.localesScanner.getEntriesForKey(key);
+    const defaults = call.defaults;
     
     // 동적 키(변수 포함) 처리
     const isDynamicKey = key.includes('#{');
@@ -230,7 +316,7 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
       const baseKey = key.split('#{')[0].replace(/\.$/, '');
       if (baseKey.length > 0) {
         // 기본 키로 시작하는 항목 찾기
-        const baseEntries = entries.filter(entry => entry.key.startsWith(baseKey))
+        const baseEntries = this.localesScanner.findEntriesStartingWith(baseKey)
           .sort((a, b) => a.key.length - b.key.length);
         
         if (baseEntries.length > 0) {
@@ -239,14 +325,20 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
           this.log(`호버: 동적 키에 대해 ${matchedEntries.length}개 관련 항목 발견`, this.debugMode);
           
           // 다중 항목을 위한 특수 처리
-          return this.createHoverForEntries(matchedEntries, key);
+          return this.createHoverForEntries(matchedEntries, key, lazyScope);
         }
       }
     }
     
     if (matchedEntries.length > 0) {
       this.log(`호버: ${matchedEntries.length}개 항목 일치`, this.debugMode);
-      return this.createHoverForEntries(matchedEntries, key);
+      return this.createHoverForEntries(matchedEntries, key, lazyScope, defaults);
+    }
+    
+    // 키가 없어도 default 옵션의 키나 문자열이 사용되는 경우
+    if (defaults && (defaults.text !== undefined || defaults.keys.some(defaultKey => this.localesScanner.hasKey(defaultKey)))) {
+      this.log(`호버: 키 "${key}" 대신 default 옵션 사용`, this.debugMode);
+      return this.createHoverForEntries([], key, lazyScope, defaults);
     }
     
     this.log(`호버: 키 "${key}"에 대한 일치 항목이 없음`, this.debugMode);
@@ -254,7 +346,7 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
     // 좀 더 보기 좋은 "번역 없음" 메시지
     const content = new vscode.MarkdownString();
     content.isTrusted = true;
-    content.appendMarkdown(`## 🌐 I18n: \`${key}\`\n\n`);
+    this.addHoverTitle(content, key, lazyScope);
     content.appendMarkdown(`---\n\n`);
     content.appendMarkdown(`> ⚠️ **이 키에 대한 번역을 찾을 수 없습니다.**\n\n`);
     
@@ -266,28 +358,24 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
   }
   
   /**
-   * 문서와 위치 정보로부터 I18n 키 추출
+   * 현재 위치의 lazy lookup 범위 계산 (뷰 경로, 컨트롤러/메일러 액션, 컴포넌트)
    */
-  private extractKeyFromPosition(
-    document: vscode.TextDocument, 
-    position: vscode.Position, 
-    lineText: string, 
-    wordUnderCursor: string
-  ): string | null {
-    // 커서 위치 기준으로 I18n.t 호출 찾기
-    let key = this.extractI18nKeyAtPosition(lineText, position.character);
-    
-    // 키를 찾지 못한 경우 추가 대안 시도
-    if (!key) {
-      // 전체 라인에서 키 추출 시도
-      key = this.extractI18nKey(lineText);
-      
-      // 커서 위치에 따라 찾기 시도 - I18n.t 호출인 경우에만
-      if (!key && wordUnderCursor && wordUnderCursor.includes('.') && 
-          (lineText.includes('I18n.t') || lineText.includes('t('))) {
-        this.log(`호버: 단어에서 키 추출 시도 - ${wordUnderCursor}`, this.debugMode);
-        key = wordUnderCursor;
-      }
+  private getLazyScope(document: vscode.TextDocument, position: vscode.Position): string | undefined {
+    return getLazyLookupScope(document.fileName, document.getText(), document.offsetAt(position));
+  }
+  
+  /**
+   * lazy lookup 키(.title)를 문서 위치 기준의 전체 키로 변환
+   */
+  private resolveKey(document: vscode.TextDocument, position: vscode.Position, key: string): string {
+    if (!isLazyKey(key)) {
+      return key;
+    }
+    
+    const resolvedKey = resolveLazyKey(key, document.fileName, document.getText(), document.offsetAt(position));
+    if (resolvedKey) {
+      this.log(`lazy lookup: "${key}" -> "${resolvedKey}"`, this.debugMode);
+      return resolvedKey;
     }
     
     return key;
@@ -296,9 +384,14 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
   /**
    * 여러 언어의 번역을 포함한 호버 생성
    */
-  private createHoverForEntries(entries: I18nEntry[], key: string): vscode.Hover {
+  private createHoverForEntries(
+    entries: I18nEntry[],
+    key: string,
+    lazyScope?: string,
+    defaults?: I18nCallDefaults
+  ): vscode.Hover {
     // 호버 콘텐츠 생성
-    const content = this.createHoverContent(entries, key);
+    const content = this.createHoverContent(entries, key, lazyScope, defaults);
     
     return new vscode.Hover(content);
   }
@@ -306,12 +399,36 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
   /**
    * 호버 콘텐츠 생성
    */
-  private createHoverContent(entries: I18nEntry[], key: string): vscode.MarkdownString {
+  private createHoverContent(
+    entries: I18nEntry[],
+    key: string,
+    lazyScope?: string,
+    defaults?: I18nCallDefaults
+  ): vscode.MarkdownString {
     const content = new vscode.MarkdownString();
     content.isTrusted = true;
     
     // 호버 제목 추가
-    this.addHoverTitle(content, key);
+    this.addHoverTitle(content, key, lazyScope);
+    
+    // 보간 변수 표시
+    const variables = new Set<string>();
+    entries.filter(entry => entry.key === key).forEach(entry => {
+      (entry.variables || []).forEach(variable => variables.add(variable));
+    });
+    if (variables.size > 0) {
+      const variableList = Array.from(variables).map(variable => `\`${variable}\``).join(', ');
+      content.appendMarkdown(`🔤 보간 변수: ${variableList}\n\n`);
+    }
+    
+    // default 옵션의 후보 표시
+    if (defaults && (defaults.keys.length > 0 || defaults.text !== undefined)) {
+      const candidates = defaults.keys.map(defaultKey => `\`${defaultKey}\``);
+      if (defaults.text !== undefined) {
+        candidates.push(`"${this.truncateValue(defaults.text)}"`);
+      }
+      content.appendMarkdown(`↩️ default: ${candidates.join(' → ')}\n\n`);
+    }
     
     // 언어별 그룹화
     const langGroups = this.groupEntriesByLanguage(entries);
@@ -320,7 +437,7 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
     content.appendMarkdown(`---\n\n`);
     
     // 언어 그룹별로 항목 추가
-    this.addLanguageGroupsToContent(content, langGroups, key);
+    this.addLanguageGroupsToContent(content, langGroups, key, defaults);
     
     // 동적 키 처리 (변수가 포함된 경우 도움말 추가)
     if (key.includes('#{')) {
@@ -334,7 +451,7 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
   /**
    * 호버 제목 추가
    */
-  private addHoverTitle(content: vscode.MarkdownString, key: string): void {
+  private addHoverTitle(content: vscode.MarkdownString, key: string, lazyScope?: string): void {
     // 간결한 키 표시
     const keyParts = key.split('.');
     let displayKey = key;
@@ -352,6 +469,11 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
     if (displayKey !== key) {
       content.appendMarkdown(`전체 경로: \`${key}\`\n\n`);
     }
+    
+    // lazy lookup으로 해석한 범위 표시
+    if (lazyScope) {
+      content.appendMarkdown(`📂 Lazy lookup 범위: \`${lazyScope}\`\n\n`);
+    }
   }
   
   /**
@@ -378,20 +500,11 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
   private addLanguageGroupsToContent(
     content: vscode.MarkdownString, 
     langGroups: {[lang: string]: I18nEntry[]}, 
-    key: string
+    key: string,
+    defaults?: I18nCallDefaults
   ): void {
     const languageCodes = this.getLanguageCodes();
-    
-    // 언어별 국기 이모지 매핑
-    const flagEmoji: {[key: string]: string} = {
-      'ko': '🇰🇷',
-      'en': '🇺🇸',
-      'ja': '🇯🇵',
-      'zh': '🇨🇳',
-      'fr': '🇫🇷',
-      'de': '🇩🇪',
-      'es': '🇪🇸'
-    };
+    const candidateKeys = defaults ? [key, ...defaults.keys] : [key];
     
     // 설정된 언어 순서대로 표시
     let isFirst = true;
@@ -404,10 +517,34 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
         isFirst = false;
         
         // 국기 이모지와 함께 언어 표시
-        const emoji = flagEmoji[lang] || '';
-        content.appendMarkdown(`### ${emoji} ${lang.toUpperCase()}\n\n`);
+        const emoji = getLocaleFlag(lang) || '';
+        content.appendMarkdown(`### ${emoji} ${lang}\n\n`);
         
         this.addEntriesToContent(content, langGroups[lang], key);
+        return;
+      }
+      
+      // 번역이 없는 언어는 런타임에 폴백이나 default 옵션으로 사용되는 값 표시
+      const fallbackEntry = key.includes('#{') ? undefined : this.fallbacks.resolveCandidates(candidateKeys, lang);
+      const defaultText = defaults && !key.includes('#{') ? defaults.text : undefined;
+      if (fallbackEntry || defaultText !== undefined) {
+        if (!isFirst) {
+          content.appendMarkdown(`\n\n`);
+        }
+        isFirst = false;
+        
+        const emoji = getLocaleFlag(lang) || '';
+        content.appendMarkdown(`### ${emoji} ${lang}\n\n`);
+        
+        if (fallbackEntry) {
+          if (fallbackEntry.lang !== lang) {
+            content.appendMarkdown(`↪️ *${fallbackEntry.lang}에서 폴백*\n\n`);
+          }
+          this.addEntriesToContent(content, [fallbackEntry], key);
+        } else {
+          content.appendMarkdown(`↩️ *default 문자열*\n\n`);
+          content.appendMarkdown(`> 💬 **${this.truncateValue(defaultText!)}**`);
+        }
       }
     });
     
@@ -420,8 +557,8 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
         }
         isFirst = false;
         
-        const emoji = flagEmoji[lang] || '🌐';
-        content.appendMarkdown(`### ${emoji} ${lang.toUpperCase()}\n\n`);
+        const emoji = getLocaleFlag(lang) || '🌐';
+        content.appendMarkdown(`### ${emoji} ${lang}\n\n`);
         
         this.addEntriesToContent(content, langGroups[lang], key);
       }
@@ -447,15 +584,17 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
         content.appendMarkdown(`📌 키: \`${entry.key}\`\n\n`);
       }
       
-      // 값 표시 (너무 길면 잘라서)
-      let displayValue = entry.value;
-      if (entry.value && entry.value.length > 150) {
-        displayValue = entry.value.substring(0, 147) + '...';
+      // 복수형 키는 형태별 값을 모두 표시
+      if (entry.plurals) {
+        const forms = Object.keys(entry.plurals).map(category =>
+          `> 🔢 ${category}: **${this.truncateValue(entry.plurals![category])}**`
+        );
+        content.appendMarkdown(`${forms.join('\n>\n')}\n\n`);
+      } else {
+        // 인용구로 번역 값 표시하여 강조 (더 큰 글씨로 표시)
+        content.appendMarkdown(`> 💬 **${this.truncateValue(entry.value)}**\n\n`);
       }
       
-      // 인용구로 번역 값 표시하여 강조 (더 큰 글씨로 표시)
-      content.appendMarkdown(`> 💬 **${displayValue}**\n\n`);
-      
       // 파일 경로 표시 (너무 길면 잘라서)
       let displayPath = entry.file;
       if (displayPath.length > 40) {
@@ -476,105 +615,79 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
   }
   
   /**
-   * I18n.t 호출에서 키 추출 (전체 라인 기준)
+   * 너무 긴 번역 값은 잘라서 표시
    */
-  private extractI18nKey(text: string): string | null {
-    // I18n.t 또는 t() 호출이 있는지 확인
-    if (!text.includes('I18n.t') && !text.includes('t(') && !text.includes('i18n.t[')) {
-      return null;
-    }
-    
-    // 키 추출 패턴 목록
-    const patterns = [
-      /I18n\.t\s*\(\s*["']([^"']+)["']\s*\)/,                // I18n.t("key")
-      /t\s*\(\s*["']([^"']+)["']\s*\)/,                      // t("key")
-      /I18n\.t\s*\(\s*["']([^"']+)["']\s*,.+\)/,            // I18n.t("key", {...})
-      /t\s*\(\s*["']([^"']+)["']\s*,.+\)/,                  // t("key", {...})
-      /i18n\.t\s*\[\s*["']([^"']+)["']\s*\]/,               // i18n.t["key"]
-      /I18n\.t\s*\[\s*["']([^"']+)["']\s*\]/,               // I18n.t["key"]
-      /["']([^"'\.]+\.[^"'\.]+\.[^"'\.]+)["']/              // "a.b.c" 패턴
-    ];
-    
-    // 각 패턴으로 키 추출 시도
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match && match[1]) {
-        return match[1];
-      }
-    }
-    
-    return null;
+  private truncateValue(value: string): string {
+    return value && value.length > 150 ? value.substring(0, 147) + '...' : value;
   }
   
   /**
-   * 커서 위치에 따라 I18n.t 호출에서 키 추출
+   * 커서 위치의 I18n.t 호출 찾기 (포함된 호출이 없으면 같은 줄에서 가장 가까운 호출)
    */
-  private extractI18nKeyAtPosition(text: string, position: number): string | null {
-    // 라인에 있는 모든 I18n.t 호출 찾기
-    const i18nCalls = this.findAllI18nCalls(text);
+  private findCallAtPosition(document: vscode.TextDocument, position: vscode.Position): I18nCall | undefined {
+    const offset = document.offsetAt(position);
+    const i18nCalls = getDocumentI18nCalls(document);
     
-    // 커서 위치에 포함된 호출 찾기
+    // 커서 위치의 키 리터럴 찾기 (t([:a, :b])처럼 한 호출에 키가 여러 개인 경우)
     for (const call of i18nCalls) {
-      if (position >= call.start && position <= call.end) {
-        return call.key;
+      if (offset >= call.keyStart && offset <= call.keyEnd) {
+        return call;
       }
     }
     
-    // 정확히 포함되지 않으면 가장 가까운 호출 찾기
-    if (i18nCalls.length > 0) {
-      let closestCall = i18nCalls[0];
-      let minDistance = Math.abs(position - (closestCall.start + closestCall.end) / 2);
-      
-      for (let i = 1; i < i18nCalls.length; i++) {
-        const call = i18nCalls[i];
-        const distance = Math.abs(position - (call.start + call.end) / 2);
-        
-        if (distance < minDistance) {
-          minDistance = distance;
-          closestCall = call;
-        }
+    // 커서 위치에 포함된 호출 찾기 (여러 줄 호출 포함)
+    for (const call of i18nCalls) {
+      if (offset >= call.start && offset <= call.end) {
+        return call;
+      }
+    }
+    
+    // 정확히 포함되지 않으면 같은 줄에서 가장 가까운 호출 찾기
+    const lineCalls = i18nCalls.filter(call =>
+      document.positionAt(call.start).line <= position.line && document.positionAt(call.end).line >= position.line
+    );
+    let closestCall: I18nCall | undefined;
+    let minDistance = Infinity;
+    
+    for (const call of lineCalls) {
+      const distance = Math.abs(offset - (call.start + call.end) / 2);
+      if (distance < minDistance) {
+        minDistance = distance;
+        closestCall = call;
       }
-      
-      return closestCall.key;
     }
     
-    return null;
+    return closestCall;
   }
   
   /**
-   * 문자열에서 모든 I18n.t 호출 찾기
+   * 커서 위치의 ActiveRecord/ActiveModel 번역 조회 찾기
+   * (여러 줄에 걸친 문장 전체에서 찾고, 클래스 이름이 없으면 둘러싼 모델 클래스 기준)
    */
-  private findAllI18nCalls(text: string): Array<{key: string, start: number, end: number}> {
-    const calls: Array<{key: string, start: number, end: number}> = [];
-    
-    // I18n.t 호출 패턴 정의
-    const patterns = [
-      { regex: /I18n\.t\s*\(\s*["']([^"']+)["']\s*\)/g, group: 1 },                 // I18n.t("key")
-      { regex: /I18n\.t\s*\(\s*["']([^"']+)["']\s*,.+?\)/g, group: 1 },             // I18n.t("key", {...})
-      { regex: /t\s*\(\s*["']([^"']+)["']\s*\)/g, group: 1 },                       // t("key")
-      { regex: /t\s*\(\s*["']([^"']+)["']\s*,.+?\)/g, group: 1 },                   // t("key", {...})
-      { regex: /i18n\.t\s*\[\s*["']([^"']+)["']\s*\]/g, group: 1 },                 // i18n.t["key"]
-      { regex: /I18n\.t\s*\[\s*["']([^"']+)["']\s*\]/g, group: 1 }                  // I18n.t["key"]
-    ];
-    
-    // 각 패턴으로 호출 찾기
-    for (const pattern of patterns) {
-      const regex = new RegExp(pattern.regex.source, pattern.regex.flags);
-      let match;
-      
-      while ((match = regex.exec(text)) !== null) {
-        const key = match[pattern.group];
-        const start = match.index;
-        const end = start + match[0].length;
-        
-        calls.push({ key, start, end });
-      }
+  private findActiveRecordLookupAtPosition(document: vscode.TextDocument, position: vscode.Position): I18nCall | undefined {
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+    const statement = findStatementRange(text, offset, isErbDocument(document));
+    if (!statement) {
+      return undefined;
     }
     
-    // 시작 위치 기준으로 정렬
-    return calls.sort((a, b) => a.start - b.start);
+    const modelClass = getEnclosingModelClass(text, offset, document.fileName);
+    const lookup = findActiveRecordLookups(text.substring(statement.start, statement.end), modelClass).find(candidate =>
+      (offset - statement.start >= candidate.keyStart && offset - statement.start <= candidate.keyEnd)
+      || (offset - statement.start >= candidate.start && offset - statement.start <= candidate.end)
+    );
+    
+    // 문장 기준 위치를 문서 기준 위치로 변환
+    return lookup && {
+      ...lookup,
+      start: lookup.start + statement.start,
+      end: lookup.end + statement.start,
+      keyStart: lookup.keyStart + statement.start,
+      keyEnd: lookup.keyEnd + statement.start
+    };
   }
-
+  
   /**
    * 정의 제공 (Go to Definition)
    */
@@ -586,52 +699,44 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
     this.updateDebugMode();
     this.log('정의 제공 호출됨', true);
     
-    // 1. 키 추출 
-    const lineText = document.lineAt(position).text;
-    const wordRange = document.getWordRangeAtPosition(position, /[a-zA-Z0-9_\.]+/);
-    let key: string | null = null;
-    
-    if (wordRange) {
-      // 먼저 커서 위치에서 정확한 키 추출 시도
-      key = this.extractI18nKeyAtPosition(lineText, position.character);
-      
-      if (!key) {
-        // 전체 라인에서 키 추출 시도
-        key = this.extractI18nKey(lineText);
-        
-        // 그래도 없으면 커서 아래 단어를 사용 (단, '.'이 포함된 경우만)
-        if (!key) {
-          const wordUnderCursor = document.getText(wordRange);
-          if (wordUnderCursor && wordUnderCursor.includes('.')) {
-            key = wordUnderCursor;
-            this.log(`정의 제공: 단어에서 키 추출 - ${key}`, this.debugMode);
-          }
-        }
-      }
-    }
-    
-    if (!key) {
+    // 1. 키 추출 (ActiveRecord 번역 조회 또는 I18n.t 호출)
+    const call = this.findActiveRecordLookupAtPosition(document, position) || this.findCallAtPosition(document, position);
+    if (!call) {
       this.log('정의 제공: 키를 추출할 수 없음', this.debugMode);
       return undefined;
     }
     
+    const key = this.resolveKey(document, position, call.key);
+    
+    // 이동할 때 강조할 호출의 키 범위
+    const originRange = new vscode.Range(document.positionAt(call.keyStart), document.positionAt(call.keyEnd));
+    
     this.log(`정의 제공: 키 "${key}" 검색`, this.debugMode);
     
     // 2. 로케일 항목 확인
-    const entries = this.localesScanner.getEntries();
-    if (entries.length === 0) {
+    if (this.localesScanner.getKeyCount() === 0) {
       this.log('정의 제공: 항목 없음, 먼저 스캔 필요', true);
       return undefined;
     }
     
     // 3. 정확한 키 매칭 (strict matching)
-    const locations = this.findExactMatchLocations(entries, key);
+    const locations = this.findExactMatchLocations(key, originRange);
     if (locations.length > 0) {
       return locations;
     }
     
-    // 4. 대체 키 시도
-    const altLocations = this.findAlternativeKeyLocations(entries, key);
+    // 4. default 옵션의 키 중 처음으로 정의된 키
+    const defaults = call.defaults;
+    for (const defaultKey of defaults ? defaults.keys : []) {
+      const defaultLocations = this.findExactMatchLocations(defaultKey, originRange);
+      if (defaultLocations.length > 0) {
+        this.log(`정의 제공: default 키 "${defaultKey}"로 이동`, this.debugMode);
+        return defaultLocations;
+      }
+    }
+    
+    // 5. 대체 키 시도
+    const altLocations = this.findAlternativeKeyLocations(key, originRange);
     if (altLocations.length > 0) {
       return altLocations;
     }
@@ -643,9 +748,9 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
   /**
    * 정확한 키 매칭 위치 찾기
    */
-  private findExactMatchLocations(entries: I18nEntry[], key: string): vscode.Location[] {
-    const exactMatches = entries.filter(entry => {
-      const isMatch = entry.key === key && entry.file && entry.fileLine !== undefined;
+  private findExactMatchLocations(key: string, originRange: vscode.Range): vscode.LocationLink[] {
+    const exactMatches = this.localesScanner.getEntriesForKey(key).filter(entry => {
+      const isMatch = entry.file && entry.fileLine !== undefined;
       if (isMatch) {
         this.log(`정의 제공: 정확한 일치 - ${entry.key} (${entry.lang || '언어 없음'}) 파일: ${entry.file}`, this.debugMode);
       }
@@ -653,7 +758,7 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
     });
     
     if (exactMatches.length > 0) {
-      const locations = exactMatches.map(entry => this.createLocation(entry));
+      const locations = exactMatches.flatMap(entry => this.createLocations(entry, originRange));
       this.log(`정의 제공: ${exactMatches.length}개의 정확한 매칭 발견`, this.debugMode);
       return locations;
     }
@@ -664,13 +769,13 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
   /**
    * 대체 키 위치 찾기
    */
-  private findAlternativeKeyLocations(entries: I18nEntry[], key: string): vscode.Location[] {
+  private findAlternativeKeyLocations(key: string, originRange: vscode.Range): vscode.LocationLink[] {
     let alternativeKey: string | null = null;
     const languageCodes = this.getLanguageCodes();
     
-    // 언어 코드가 포함된 키인지 확인 (예: "ko.user.name" -> "user.name")
-    const langKeyMatch = key.match(/^([a-z]{2})\.(.+)$/i);
-    if (langKeyMatch && languageCodes.includes(langKeyMatch[1].toLowerCase())) {
+    // 언어 코드가 포함된 키인지 확인 (예: "ko.user.name", "pt-BR.user.name" -> "user.name")
+    const langKeyMatch = key.match(/^([^.]+)\.(.+)$/);
+    if (langKeyMatch && isLocaleCode(langKeyMatch[1]) && languageCodes.includes(normalizeLocaleCode(langKeyMatch[1]))) {
       alternativeKey = langKeyMatch[2];
       this.log(`정의 제공: 언어 코드 제거 후 대체 키 - ${alternativeKey}`, this.debugMode);
     }
@@ -678,8 +783,8 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
     else {
       for (const langCode of languageCodes) {
         const altKey = `${langCode}.${key}`;
-        const altMatches = entries.filter(entry => 
-          entry.key === altKey && entry.file && entry.fileLine !== undefined
+        const altMatches = this.localesScanner.getEntriesForKey(altKey).filter(entry => 
+          entry.file && entry.fileLine !== undefined
         );
         
         if (altMatches.length > 0) {
@@ -692,12 +797,12 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
     
     // 대체 키로 다시 검색
     if (alternativeKey) {
-      const altMatches = entries.filter(entry => 
-        entry.key === alternativeKey && entry.file && entry.fileLine !== undefined
+      const altMatches = this.localesScanner.getEntriesForKey(alternativeKey).filter(entry => 
+        entry.file && entry.fileLine !== undefined
       );
       
       if (altMatches.length > 0) {
-        const locations = altMatches.map(entry => this.createLocation(entry));
+        const locations = altMatches.flatMap(entry => this.createLocations(entry, originRange));
         this.log(`정의 제공: ${altMatches.length}개의 대체 키 매칭 발견`, this.debugMode);
         return locations;
       }
@@ -707,12 +812,36 @@ export class I18nProvider implements vscode.CompletionItemProvider, vscode.Hover
   }
   
   /**
-   * 항목에서 위치 객체 생성
+   * 항목에서 위치 링크 생성 (별칭이나 병합 키로 가져온 키는 별칭 위치와 앵커 쪽 위치)
    */
-  private createLocation(entry: I18nEntry): vscode.Location {
-    const fileUri = vscode.Uri.file(entry.file);
+  private createLocations(entry: I18nEntry, originRange: vscode.Range): vscode.LocationLink[] {
     const lineNumber = typeof entry.fileLine === 'number' ? Math.max(0, entry.fileLine - 1) : 0;
+    const keyRange = entry.keyRange || new vscode.Range(lineNumber, 0, lineNumber, 0);
+    const locations = [this.createLocationLink(entry.file, keyRange, entry.valueRange, originRange)];
     
-    return new vscode.Location(fileUri, new vscode.Position(lineNumber, 0));
+    if (entry.anchorSource) {
+      locations.push(this.createLocationLink(entry.file, entry.anchorSource.keyRange, entry.anchorSource.valueRange, originRange));
+    }
+    
+    return locations;
+  }
+  
+  /**
+   * 위치 링크 생성 (키부터 값까지 강조하고 값을 선택)
+   */
+  private createLocationLink(
+    file: string,
+    keyRange: vscode.Range,
+    valueRange: vscode.Range | undefined,
+    originRange: vscode.Range
+  ): vscode.LocationLink {
+    const selectionRange = valueRange || keyRange;
+    
+    return {
+      originSelectionRange: originRange.isEmpty ? undefined : originRange,
+      targetUri: vscode.Uri.file(file),
+      targetRange: keyRange.union(selectionRange),
+      targetSelectionRange: selectionRange
+    };
   }
 } 
\ No newline at end of file
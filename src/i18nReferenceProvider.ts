@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { I18nLocalesScanner } from './i18nLocalesScanner';
+import { I18nUsageIndex } from './i18nUsageIndex';
+import { findLocaleKeyAtOffset } from './i18nYamlEditor';
+
+export class I18nReferenceProvider implements vscode.ReferenceProvider {
+  constructor(private localesScanner: I18nLocalesScanner, private usageIndex: I18nUsageIndex) {}
+  
+  /**
+   * 로케일 YAML 파일의 키를 사용하는 모든 Ruby/ERB 호출 위치 (하위 키와 일치할 수 있는 동적 키 포함)
+   */
+  public async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Location[] | undefined> {
+    if (!this.localesScanner.isLocaleFilePath(document.fileName)) {
+      return undefined;
+    }
+    
+    const keyAtOffset = findLocaleKeyAtOffset(document.getText(), document.offsetAt(position));
+    if (!keyAtOffset) {
+      return undefined;
+    }
+    
+    const key = keyAtOffset.key;
+    const keys = [key, ...this.localesScanner.findEntriesWithPrefix(key).map(entry => entry.key)];
+    const usages = [
+      ...await this.usageIndex.findUsages(key),
+      ...await this.usageIndex.findDynamicUsages(keys)
+    ];
+    if (token.isCancellationRequested) {
+      return undefined;
+    }
+    
+    // default 옵션의 키와 동적 키에 모두 일치한 호출은 한 번만 표시
+    const locations = usages
+      .filter((usage, index) => usages.findIndex(other =>
+        other.uri.toString() === usage.uri.toString() && other.range.isEqual(usage.range)
+      ) === index)
+      .map(usage => new vscode.Location(usage.uri, usage.range));
+    if (context.includeDeclaration) {
+      locations.unshift(...this.getDeclarations(document, key, keyAtOffset.start, keyAtOffset.end));
+    }
+    
+    return locations;
+  }
+  
+  /**
+   * 모든 로케일 파일의 키 정의 위치 (위치를 모르는 네임스페이스 키는 현재 위치)
+   */
+  private getDeclarations(document: vscode.TextDocument, key: string, start: number, end: number): vscode.Location[] {
+    const declarations = this.localesScanner.getEntriesForKey(key)
+      .filter(entry => entry.fileLine !== undefined)
+      .map(entry => new vscode.Location(vscode.Uri.file(entry.file), entry.keyRange || new vscode.Position(entry.fileLine! - 1, 0)));
+    
+    if (declarations.length === 0) {
+      declarations.push(new vscode.Location(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end))));
+    }
+    
+    return declarations;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,360 @@
+import * as vscode from 'vscode';
+import { I18nLocalesScanner } from './i18nLocalesScanner';
+import { getDocumentI18nCalls } from './i18nDocumentCalls';
+import { isLazyKey, resolveLazyKey } from './i18nLazyLookup';
+import { isLocaleCode, normalizeLocaleCode } from './i18nLocale';
+import { createKeyRename, createTextReplacement, findLocaleKeyAtOffset, findRootKey } from './i18nYamlEditor';
+import { getCallKeyLiteral, I18nUsage, I18nUsageIndex, isKeyOrChild } from './i18nUsageIndex';
+
+// 따옴표 없이 쓸 수 있는 심볼 이름
+const BARE_SYMBOL_PATTERN = /^[A-Za-z_]\w*[?!]?$/;
+
+/**
+ * 이름을 바꿀 키와 편집기에서의 범위
+ */
+interface RenameTarget {
+  key: string; // 전체 키 (lazy lookup 해석 후)
+  range: vscode.Range;
+}
+
+/**
+ * 자동으로 바꾸지 못한 사용 위치
+ */
+interface SkippedUsage {
+  location: string; // 파일:줄
+  key: string; // 호출에 적힌 키
+  reason: string;
+}
+
+export class I18nRenameProvider implements vscode.RenameProvider {
+  private outputChannel: vscode.OutputChannel;
+  private debugMode: boolean = false;
+  
+  constructor(
+    private localesScanner: I18nLocalesScanner,
+    outputChannel: vscode.OutputChannel,
+    private usageIndex: I18nUsageIndex
+  ) {
+    this.outputChannel = outputChannel;
+    this.updateDebugMode();
+  }
+  
+  /**
+   * 디버그 모드 설정 업데이트
+   */
+  private updateDebugMode(): void {
+    const config = vscode.workspace.getConfiguration('rails-i18n');
+    this.debugMode = config.get('debugMode') || false;
+  }
+  
+  /**
+   * 로그 출력
+   */
+  private log(message: string, force: boolean = false): void {
+    if (force || this.debugMode) {
+      console.log(message);
+      this.outputChannel.appendLine(message);
+    }
+  }
+  
+  /**
+   * 이름 바꾸기 가능 여부 확인 (입력란에는 전체 키 표시)
+   */
+  public prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): { range: vscode.Range, placeholder: string } {
+    const target = this.getRenameTarget(document, position);
+    return { range: target.range, placeholder: target.key };
+  }
+  
+  /**
+   * 모든 로케일 파일의 키와 워크스페이스의 호출을 바꾸는 편집 생성
+   */
+  public async provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string,
+    token: vscode.CancellationToken
+  ): Promise<vscode.WorkspaceEdit> {
+    this.updateDebugMode();
+    const oldKey = this.getRenameTarget(document, position).key;
+    const newKey = this.resolveNewKey(document, position, newName.trim());
+    
+    const edit = new vscode.WorkspaceEdit();
+    if (newKey === oldKey) {
+      return edit;
+    }
+    
+    this.validateNewKey(oldKey, newKey);
+    
+    await this.addLocaleEdits(edit, oldKey, newKey);
+    const skippedUsages = await this.addCallEdits(edit, oldKey, newKey);
+    
+    this.log(`키 이름 변경: ${oldKey} -> ${newKey} (${edit.size}개 파일)`, true);
+    this.reportSkippedUsages(skippedUsages);
+    
+    return edit;
+  }
+  
+  /**
+   * 위치에 있는 키 (Ruby/ERB 호출의 키 문자열 또는 로케일 YAML 파일의 키)
+   */
+  private getRenameTarget(document: vscode.TextDocument, position: vscode.Position): RenameTarget {
+    const offset = document.offsetAt(position);
+    const target = document.languageId === 'yaml'
+      ? this.getYamlTarget(document, offset)
+      : this.getCallTarget(document, offset);
+    
+    if (!target) {
+      throw new Error('이름을 바꿀 수 있는 I18n 키가 아닙니다.');
+    }
+    
+    if (!this.localesScanner.hasKey(target.key) && this.localesScanner.listChildKeys(target.key).length === 0) {
+      throw new Error(`"${target.key}" 키가 로케일 파일에 없습니다.`);
+    }
+    
+    return target;
+  }
+  
+  /**
+   * Ruby/ERB 호출의 키 문자열 위치의 키
+   */
+  private getCallTarget(document: vscode.TextDocument, offset: number): RenameTarget | undefined {
+    const call = getDocumentI18nCalls(document).find(call => offset >= call.keyStart && offset <= call.keyEnd);
+    if (!call || !getCallKeyLiteral(document.getText(), call)) {
+      return undefined;
+    }
+    
+    if (call.key.includes('#{')) {
+      throw new Error('#{}가 포함된 동적 키는 이름을 바꿀 수 없습니다.');
+    }
+    
+    const key = resolveLazyKey(call.key, document.fileName, document.getText(), call.start);
+    if (!key) {
+      throw new Error('이 파일에서는 lazy lookup 범위를 알 수 없습니다.');
+    }
+    
+    return {
+      key,
+      range: new vscode.Range(document.positionAt(call.keyStart), document.positionAt(call.keyEnd))
+    };
+  }
+  
+  /**
+   * 로케일 YAML 파일의 키 위치의 전체 키 (최상위 언어 키 제외)
+   */
+  private getYamlTarget(document: vscode.TextDocument, offset: number): RenameTarget | undefined {
+    if (!this.localesScanner.isLocaleFilePath(document.fileName)) {
+      return undefined;
+    }
+    
+    const keyAtOffset = findLocaleKeyAtOffset(document.getText(), offset);
+    if (!keyAtOffset) {
+      return undefined;
+    }
+    
+    return {
+      key: keyAtOffset.key,
+      range: new vscode.Range(document.positionAt(keyAtOffset.start), document.positionAt(keyAtOffset.end))
+    };
+  }
+  
+  /**
+   * 입력한 새 이름을 전체 키로 변환 (Ruby/ERB에서 점으로 시작하면 lazy lookup 키)
+   */
+  private resolveNewKey(document: vscode.TextDocument, position: vscode.Position, newName: string): string {
+    if (!/^\.?[\w-]+(\.[\w-]+)*$/.test(newName)) {
+      throw new Error('점으로 구분된 키를 입력하세요 (예: users.index.title)');
+    }
+    
+    if (!isLazyKey(newName)) {
+      return newName;
+    }
+    
+    const key = document.languageId === 'yaml'
+      ? undefined
+      : resolveLazyKey(newName, document.fileName, document.getText(), document.offsetAt(position));
+    if (!key) {
+      throw new Error('lazy lookup 범위를 알 수 없습니다. 전체 키를 입력하세요.');
+    }
+    
+    return key;
+  }
+  
+  /**
+   * 새 키가 기존 키와 겹치지 않는지 확인
+   */
+  private validateNewKey(oldKey: string, newKey: string): void {
+    if (newKey.startsWith(`${oldKey}.`)) {
+      throw new Error(`"${oldKey}" 키를 자신의 하위 키로 옮길 수 없습니다.`);
+    }
+    
+    if (this.localesScanner.hasKey(newKey) || this.localesScanner.listChildKeys(newKey).length > 0) {
+      throw new Error(`"${newKey}" 키가 이미 있습니다.`);
+    }
+    
+    // 상위 키가 번역 값이면 그 아래로 옮길 수 없음
+    const parts = newKey.split('.');
+    for (let index = 1; index < parts.length; index++) {
+      const parentKey = parts.slice(0, index).join('.');
+      if (this.localesScanner.hasKey(parentKey)) {
+        throw new Error(`상위 키 "${parentKey}"가 번역 값이라 하위 키로 옮길 수 없습니다.`);
+      }
+    }
+  }
+  
+  /**
+   * 키가 정의된 모든 로케일 파일의 편집 추가 (네임스페이스가 바뀌면 새 부모 매핑으로 이동)
+   */
+  private async addLocaleEdits(edit: vscode.WorkspaceEdit, oldKey: string, newKey: string): Promise<void> {
+    // 여러 파일에 같은 언어로 정의되어 가려진 항목도 함께 변경
+    const entries = [
+      ...this.localesScanner.getDefinitionsForKey(oldKey),
+      ...this.localesScanner.findDefinitionsWithPrefix(oldKey)
+    ];
+    
+    // 별칭이나 병합 키로만 생긴 키는 파일에 적힌 키가 없어 바꿀 수 없음
+    if (entries.some(entry => entry.key === oldKey && entry.aliasRange)) {
+      throw new Error(`"${oldKey}" 키는 별칭이나 병합 키(<<)로 가져온 키라서 이름을 바꿀 수 없습니다. 앵커 쪽 키를 수정하세요.`);
+    }
+    
+    // 파일별 언어 목록 (하나의 파일에 여러 언어가 있을 수 있음)
+    const fileLangs = new Map<string, Set<string | undefined>>();
+    for (const entry of entries) {
+      const langs = fileLangs.get(entry.file) || new Set<string | undefined>();
+      langs.add(entry.lang);
+      fileLangs.set(entry.file, langs);
+    }
+    
+    for (const [filePath, langs] of fileLangs) {
+      const document = await vscode.workspace.openTextDocument(filePath);
+      const original = document.getText();
+      let content = original;
+      
+      for (const lang of langs) {
+        const rootKey = findRootKey(content, key => isLocaleCode(key) && (!lang || normalizeLocaleCode(key) === lang));
+        const rootPath = rootKey ? [rootKey] : [];
+        
+        try {
+          const replacement = createKeyRename(
+            content,
+            [...rootPath, ...oldKey.split('.')],
+            [...rootPath, ...newKey.split('.')],
+            rootPath.length
+          );
+          content = content.substring(0, replacement.offset) + replacement.text + content.substring(replacement.offset + replacement.length);
+        } catch (error) {
+          // 네임스페이스 전체가 별칭이나 병합 키로 생긴 경우
+          const reason = entries.some(entry => entry.file === filePath && entry.lang === lang && entry.aliasRange)
+            ? `"${oldKey}" 키는 별칭이나 병합 키(<<)로 가져온 키라서 이름을 바꿀 수 없습니다. 앵커 쪽 키를 수정하세요.`
+            : error instanceof Error ? error.message : error;
+          throw new Error(`${vscode.workspace.asRelativePath(filePath)}: ${reason}`);
+        }
+      }
+      
+      const replacement = createTextReplacement(original, content);
+      edit.replace(
+        document.uri,
+        new vscode.Range(document.positionAt(replacement.offset), document.positionAt(replacement.offset + replacement.length)),
+        replacement.text,
+        { needsConfirmation: true, label: '로케일 파일의 키 이름 변경' }
+      );
+    }
+  }
+  
+  /**
+   * 워크스페이스의 모든 Ruby/ERB 호출의 편집 추가 (바꾸지 못한 사용 위치 반환)
+   */
+  private async addCallEdits(edit: vscode.WorkspaceEdit, oldKey: string, newKey: string): Promise<SkippedUsage[]> {
+    const affectedKeys = [oldKey, ...this.localesScanner.findEntriesWithPrefix(oldKey).map(entry => entry.key)];
+    
+    // 동적 키는 바꿀 키와 일치할 수 있는 경우만 보고
+    const skippedUsages = (await this.usageIndex.findDynamicUsages(affectedKeys))
+      .map(usage => createSkippedUsage(usage, '동적 키'));
+    
+    for (const usage of await this.usageIndex.findUsages(oldKey)) {
+      // default 옵션의 키는 scope 옵션에 따라 달라지므로 바꾸지 않고 보고
+      if (usage.defaultKeys.some(key => isKeyOrChild(key, oldKey))) {
+        skippedUsages.push(createSkippedUsage(usage, 'default 옵션의 키'));
+      }
+      if (!isKeyOrChild(usage.key, oldKey)) {
+        continue;
+      }
+      
+      const replacement = this.createCallReplacement(usage, `${newKey}${usage.key.substring(oldKey.length)}`);
+      if (!replacement) {
+        skippedUsages.push(createSkippedUsage(usage, 'scope 옵션 또는 메소드 이름으로 정해지는 키'));
+        continue;
+      }
+      
+      edit.replace(usage.uri, replacement.range, replacement.text, { needsConfirmation: true, label: '코드의 I18n 키 변경' });
+    }
+    
+    return skippedUsages;
+  }
+  
+  /**
+   * 호출의 키 문자열을 새 키로 바꾸는 내용 (lazy lookup과 scope 옵션 형태 유지, 바꿀 수 없으면 undefined)
+   */
+  private createCallReplacement(usage: I18nUsage, newFullKey: string): { range: vscode.Range, text: string } | undefined {
+    const literal = usage.literal;
+    if (!literal) {
+      return undefined;
+    }
+    
+    let newLiteral = newFullKey;
+    if (isLazyKey(usage.callKey)) {
+      // 같은 범위 안이면 lazy lookup 키 유지
+      const scope = usage.key.substring(0, usage.key.length - usage.callKey.length);
+      newLiteral = newFullKey.startsWith(`${scope}.`) ? newFullKey.substring(scope.length) : newFullKey;
+    } else if (usage.callKey !== literal) {
+      // scope 옵션이 그대로 적용되는 경우만 바꿈
+      const scope = usage.callKey.substring(0, usage.callKey.length - literal.length - 1);
+      if (!newFullKey.startsWith(`${scope}.`)) {
+        return undefined;
+      }
+      newLiteral = newFullKey.substring(scope.length + 1);
+    }
+    
+    // 따옴표 없는 심볼에 쓸 수 없는 이름이면 따옴표 심볼로 변경 (:title -> :'users.title')
+    if (usage.isBareSymbol && !BARE_SYMBOL_PATTERN.test(newLiteral)) {
+      return { range: usage.range.with(usage.range.start.translate(0, -1)), text: `:'${newLiteral}'` };
+    }
+    
+    return { range: usage.range, text: newLiteral };
+  }
+  
+  /**
+   * 자동으로 바꾸지 못한 사용 위치를 출력 채널과 알림으로 보고
+   */
+  private reportSkippedUsages(skippedUsages: SkippedUsage[]): void {
+    if (skippedUsages.length === 0) {
+      return;
+    }
+    
+    this.log(`자동으로 바꾸지 못한 사용 위치 ${skippedUsages.length}곳:`, true);
+    skippedUsages.forEach(usage => this.log(`  ${usage.location} ${usage.key} (${usage.reason})`, true));
+    
+    vscode.window.showWarningMessage(
+      `키와 일치할 수 있는 ${skippedUsages.length}곳은 자동으로 바꾸지 않았습니다. 출력 창에서 위치를 확인하세요.`,
+      '출력 보기'
+    ).then(selection => {
+      if (selection) {
+        this.outputChannel.show(true);
+      }
+    });
+  }
+}
+
+/**
+ * 바꾸지 못한 사용 위치 정보 생성
+ */
+function createSkippedUsage(usage: I18nUsage, reason: string): SkippedUsage {
+  return {
+    location: `${vscode.workspace.asRelativePath(usage.uri)}:${usage.range.start.line + 1}`,
+    key: usage.callKey,
+    reason
+  };
+}
\ No newline at end of file
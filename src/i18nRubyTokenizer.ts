@@ -0,0 +1,644 @@
+/**
+ * Ruby 토큰 종류
+ */
+export type RubyTokenType =
+  | 'identifier' // 메소드, 지역 변수 이름 (t, translate!, user)
+  | 'constant' // 상수 (I18n, User)
+  | 'label' // 해시 키 (name:)
+  | 'string' // 문자열 ("key", 'key', %q(key), 히어독)
+  | 'symbol' // 심볼 (:key, :"key")
+  | 'words' // 단어 배열 (%w[a b], %i[a b])
+  | 'variable' // 인스턴스, 클래스, 전역 변수 (@user)
+  | 'number'
+  | 'regexp'
+  | 'punctuation' // ( ) [ ] { } , .
+  | 'operator'
+  | 'newline' // 줄바꿈, 세미콜론
+  | 'boundary' // ERB 태그, 문자열 보간 끝
+  | 'comment';
+
+/**
+ * 단어 배열의 항목
+ */
+export interface RubyWord {
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Ruby 토큰
+ */
+export interface RubyToken {
+  type: RubyTokenType;
+  text: string; // 원문
+  start: number;
+  end: number;
+  spaceBefore: boolean; // 앞에 공백이 있는지 여부
+  value?: string; // 문자열, 심볼의 내용 또는 레이블 이름
+  valueStart?: number; // 내용 시작 위치 (따옴표, 콜론 제외)
+  valueEnd?: number; // 내용 끝 위치
+  isInterpolated?: boolean; // #{} 보간이 있는지 여부
+  words?: RubyWord[]; // 단어 배열의 항목
+}
+
+// 짝이 있는 % 리터럴 구분자
+const PAIRED_DELIMITERS: { [open: string]: string } = { '(': ')', '[': ']', '{': '}', '<': '>' };
+
+// 여러 글자 연산자 (긴 것부터 검사)
+const MULTI_CHAR_OPERATORS = ['**=', '<=>', '===', '...', '=>', '->', '==', '!=', '>=', '<=', '&&', '||', '<<', '>>', '**', '::', '&.', '..', '+=', '-=', '*=', '/=', '||=', '&&=', '=~', '!~'];
+
+// 단독 구두점
+const PUNCTUATION = '()[]{},.';
+
+// 위치 지정 검색용 정규식 캐시 (패턴 -> sticky 정규식)
+const stickyPatterns = new Map<string, RegExp>();
+
+/**
+ * 코드 범위의 토큰 분리 상태
+ */
+interface TokenizerState {
+  text: string;
+  index: number;
+  end: number;
+  tokens: RubyToken[];
+  spaceBefore: boolean;
+  heredocs: Array<{ terminator: string, isIndented: boolean }>; // 다음 줄부터 시작되는 히어독
+  interpolations: Array<{ start: number, end: number }>; // 문자열 안의 #{} 코드 범위
+}
+
+/**
+ * Ruby 또는 ERB 문서를 토큰으로 분리 (ERB는 <% %> 안의 코드만)
+ */
+export function tokenizeRubyDocument(text: string, isErb: boolean): RubyToken[] {
+  if (!isErb) {
+    return tokenizeRange(text, 0, text.length);
+  }
+  
+  const tokens: RubyToken[] = [];
+  for (const range of findErbCodeRanges(text)) {
+    tokens.push(...tokenizeRange(text, range.start, range.end));
+    tokens.push({ type: 'boundary', text: '', start: range.end, end: range.end, spaceBefore: false });
+  }
+  return tokens;
+}
+
+/**
+ * ERB 템플릿의 Ruby 코드 범위 (<%, <%=, <%- 태그 안, 주석 태그 제외)
+ */
+export function findErbCodeRanges(text: string): Array<{ start: number, end: number }> {
+  const ranges: Array<{ start: number, end: number }> = [];
+  const tagRegex = /<%(?!%)([=#-]?)/g;
+  let match;
+  
+  while ((match = tagRegex.exec(text)) !== null) {
+    const start = match.index + match[0].length;
+    const closeIndex = text.indexOf('%>', start);
+    const end = closeIndex === -1 ? text.length : closeIndex;
+    
+    if (match[1] !== '#') {
+      // -%> 의 - 는 코드에 포함하지 않음
+      ranges.push({ start, end: end > start && text[end - 1] === '-' ? end - 1 : end });
+    }
+    tagRegex.lastIndex = closeIndex === -1 ? text.length : closeIndex + 2;
+  }
+  
+  return ranges;
+}
+
+/**
+ * 위치를 포함하는 문장의 범위 (괄호 안이나 쉼표, 연산자, 레이블 뒤의 줄바꿈은 문장을 끝내지 않음)
+ */
+export function findStatementRange(text: string, offset: number, isErb: boolean): { start: number, end: number } | undefined {
+  let start: number | undefined;
+  let end = 0;
+  let depth = 0;
+  let previous: RubyToken | undefined;
+  
+  for (const token of tokenizeRubyDocument(text, isErb)) {
+    // 주석과 문자열 보간 안의 토큰 (문자열 토큰 뒤에 따로 추가됨)은 건너뜀
+    if (token.type === 'comment' || token.start < end) {
+      continue;
+    }
+    
+    if (token.type === 'newline' || token.type === 'boundary') {
+      const continues = token.type === 'newline' && (depth > 0 || (previous !== undefined && continuesStatement(previous)));
+      if (!continues) {
+        if (start !== undefined && offset >= start && offset <= end) {
+          return { start, end };
+        }
+        start = undefined;
+        depth = 0;
+        previous = undefined;
+      }
+      continue;
+    }
+    
+    if (start === undefined) {
+      if (token.start > offset) {
+        return undefined;
+      }
+      start = token.start;
+    }
+    
+    if (token.text === '(' || token.text === '[' || token.text === '{') {
+      depth++;
+    } else if (token.text === ')' || token.text === ']' || token.text === '}') {
+      depth = Math.max(0, depth - 1);
+    }
+    end = token.end;
+    previous = token;
+  }
+  
+  return start !== undefined && offset >= start && offset <= end ? { start, end } : undefined;
+}
+
+/**
+ * 줄 끝에 있으면 다음 줄로 문장이 이어지는 토큰 (validates :name,\n presence: true)
+ */
+function continuesStatement(token: RubyToken): boolean {
+  return token.type === 'operator' || token.type === 'label' || token.text === ',' || token.text === '.';
+}
+
+/**
+ * 코드 범위 하나를 토큰으로 분리
+ */
+function tokenizeRange(text: string, start: number, end: number): RubyToken[] {
+  const state: TokenizerState = { text, index: start, end, tokens: [], spaceBefore: false, heredocs: [], interpolations: [] };
+  
+  while (state.index < state.end) {
+    const char = text[state.index];
+    
+    if (char === ' ' || char === '\t' || char === '\r') {
+      state.index++;
+      state.spaceBefore = true;
+      continue;
+    }
+    
+    // 줄 이어쓰기
+    if (char === '\\' && text[state.index + 1] === '\n') {
+      state.index += 2;
+      state.spaceBefore = true;
+      continue;
+    }
+    
+    if (char === '\n') {
+      pushToken(state, 'newline', state.index, state.index + 1);
+      skipHeredocBodies(state);
+      skipEmbeddedDocument(state);
+      continue;
+    }
+    
+    if (char === ';') {
+      pushToken(state, 'newline', state.index, state.index + 1);
+      continue;
+    }
+    
+    if (char === '#') {
+      const lineEnd = findLineEnd(state, state.index);
+      pushToken(state, 'comment', state.index, lineEnd);
+      continue;
+    }
+    
+    if (isLineStart(state, state.index) && text.startsWith('__END__', state.index)) {
+      break;
+    }
+    
+    if (char === '"' || char === "'" || char === '`') {
+      readQuotedString(state, 'string', state.index, state.index + 1, char, char !== "'");
+      continue;
+    }
+    
+    if (char === ':') {
+      readColon(state);
+      continue;
+    }
+    
+    if (char === '%' && readPercentLiteral(state)) {
+      continue;
+    }
+    
+    if (char === '/' && startsOperand(state) && readRegexp(state)) {
+      continue;
+    }
+    
+    if (char === '<' && readHeredocStart(state)) {
+      continue;
+    }
+    
+    if (char === '?' && readCharacterLiteral(state)) {
+      continue;
+    }
+    
+    if (char === '@' || char === '$') {
+      const match = matchAt(state, /(?:@@?|\$)[A-Za-z_]\w*|\$./, state.index);
+      const length = match ? match[0].length : 1;
+      pushToken(state, match ? 'variable' : 'operator', state.index, state.index + length);
+      continue;
+    }
+    
+    if (/[0-9]/.test(char)) {
+      const match = matchAt(state, /\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?/, state.index)!;
+      pushToken(state, 'number', state.index, state.index + match[0].length);
+      continue;
+    }
+    
+    if (/[A-Za-z_]/.test(char)) {
+      readIdentifier(state);
+      continue;
+    }
+    
+    if (PUNCTUATION.includes(char)) {
+      pushToken(state, 'punctuation', state.index, state.index + 1);
+      continue;
+    }
+    
+    const operator = MULTI_CHAR_OPERATORS.find(candidate => text.startsWith(candidate, state.index));
+    pushToken(state, 'operator', state.index, state.index + (operator ? operator.length : 1));
+  }
+  
+  // 문자열 보간 안의 코드 ("#{t('key')}")는 따로 분리해서 뒤에 추가
+  for (const interpolation of state.interpolations) {
+    state.tokens.push(...tokenizeRange(text, interpolation.start, interpolation.end));
+    state.tokens.push({ type: 'boundary', text: '', start: interpolation.end, end: interpolation.end, spaceBefore: false });
+  }
+  
+  return state.tokens;
+}
+
+/**
+ * 토큰 추가 후 위치 이동
+ */
+function pushToken(
+  state: TokenizerState,
+  type: RubyTokenType,
+  start: number,
+  end: number,
+  extra: Partial<RubyToken> = {}
+): RubyToken {
+  const token: RubyToken = {
+    type,
+    text: state.text.substring(start, end),
+    start,
+    end,
+    spaceBefore: state.spaceBefore,
+    ...extra
+  };
+  
+  state.tokens.push(token);
+  state.index = end;
+  state.spaceBefore = false;
+  return token;
+}
+
+/**
+ * 마지막 의미 있는 토큰 (주석 제외)
+ */
+function lastToken(state: TokenizerState): RubyToken | undefined {
+  for (let index = state.tokens.length - 1; index >= 0; index--) {
+    if (state.tokens[index].type !== 'comment') {
+      return state.tokens[index];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 현재 위치가 값(피연산자)이 시작될 수 있는 위치인지 확인
+ * (나눗셈, 나머지 연산자와 정규식, % 리터럴 구분 - "x / y"와 "t /re/"처럼 공백으로도 판단)
+ */
+function startsOperand(state: TokenizerState): boolean {
+  const previous = lastToken(state);
+  if (!previous || ['newline', 'boundary', 'operator', 'label'].includes(previous.type)) {
+    return true;
+  }
+  
+  if (previous.type === 'punctuation') {
+    return previous.text !== ')' && previous.text !== ']' && previous.text !== '}';
+  }
+  
+  // 메소드 호출 인자 (t %w[a b], split /,/) - 공백 뒤에 바로 리터럴이 붙어 있는 경우
+  const next = state.text[state.index + 1];
+  return previous.type === 'identifier' && state.spaceBefore && next !== ' ' && next !== '=';
+}
+
+/**
+ * 위치에서 시작하는 패턴 일치 (범위를 넘으면 null)
+ */
+function matchAt(state: TokenizerState, pattern: RegExp, position: number): RegExpExecArray | null {
+  let regex = stickyPatterns.get(pattern.source);
+  if (!regex) {
+    regex = new RegExp(pattern.source, 'y');
+    stickyPatterns.set(pattern.source, regex);
+  }
+  regex.lastIndex = position;
+  const match = regex.exec(state.text);
+  return match && position + match[0].length <= state.end ? match : null;
+}
+
+/**
+ * 줄 끝 위치 (줄바꿈 문자 위치 또는 범위 끝)
+ */
+function findLineEnd(state: TokenizerState, position: number): number {
+  const newline = state.text.indexOf('\n', position);
+  return newline === -1 || newline > state.end ? state.end : newline;
+}
+
+/**
+ * 줄의 첫 위치인지 확인
+ */
+function isLineStart(state: TokenizerState, position: number): boolean {
+  return position === 0 || state.text[position - 1] === '\n';
+}
+
+/**
+ * 따옴표 문자열 읽기 (보간이 가능한 문자열은 #{} 안의 코드 건너뜀)
+ */
+function readQuotedString(
+  state: TokenizerState,
+  type: RubyTokenType,
+  start: number,
+  valueStart: number,
+  close: string,
+  allowsInterpolation: boolean,
+  open?: string
+): RubyToken {
+  const { text } = state;
+  let index = valueStart;
+  let depth = 0;
+  let isInterpolated = false;
+  
+  while (index < state.end) {
+    const char = text[index];
+    if (char === '\\') {
+      index += 2;
+      continue;
+    }
+    if (allowsInterpolation && char === '#' && text[index + 1] === '{') {
+      isInterpolated = true;
+      const interpolationEnd = skipInterpolation(state, index + 2);
+      state.interpolations.push({ start: index + 2, end: Math.max(index + 2, interpolationEnd - 1) });
+      index = interpolationEnd;
+      continue;
+    }
+    if (open && char === open) {
+      depth++;
+    } else if (char === close) {
+      if (depth === 0) {
+        break;
+      }
+      depth--;
+    }
+    index++;
+  }
+  
+  const valueEnd = Math.min(index, state.end);
+  return pushToken(state, type, start, Math.min(index + 1, state.end), {
+    value: text.substring(valueStart, valueEnd),
+    valueStart,
+    valueEnd,
+    isInterpolated
+  });
+}
+
+/**
+ * #{} 보간 코드 건너뛰기 (닫는 중괄호 다음 위치 반환)
+ */
+function skipInterpolation(state: TokenizerState, position: number): number {
+  const { text } = state;
+  let depth = 0;
+  let quote: string | null = null;
+  
+  for (let index = position; index < state.end; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === '\\') {
+        index++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      if (depth === 0) {
+        return index + 1;
+      }
+      depth--;
+    }
+  }
+  
+  return state.end;
+}
+
+/**
+ * 콜론으로 시작하는 토큰 읽기 (::, :symbol, :"symbol", 삼항 연산자)
+ */
+function readColon(state: TokenizerState): void {
+  const { text, index } = state;
+  const next = text[index + 1];
+  
+  if (next === ':') {
+    pushToken(state, 'operator', index, index + 2);
+    return;
+  }
+  
+  if (next === '"' || next === "'") {
+    readQuotedString(state, 'symbol', index, index + 2, next, next === '"');
+    return;
+  }
+  
+  const symbolMatch = matchAt(state, /[A-Za-z_]\w*[?!=]?/, index + 1);
+  if (symbolMatch && (startsOperand(state) || state.spaceBefore)) {
+    // :name= 은 setter 심볼이지만 :name => 에서는 = 가 연산자
+    const symbol = symbolMatch[0].endsWith('=') && text[index + 1 + symbolMatch[0].length] === '>'
+      ? symbolMatch[0].slice(0, -1)
+      : symbolMatch[0];
+    pushToken(state, 'symbol', index, index + 1 + symbol.length, {
+      value: symbol,
+      valueStart: index + 1,
+      valueEnd: index + 1 + symbol.length
+    });
+    return;
+  }
+  
+  pushToken(state, 'operator', index, index + 1);
+}
+
+/**
+ * % 리터럴 읽기 (%w[], %i[], %q(), %Q{}, %()) - 나머지 연산자이면 false
+ */
+function readPercentLiteral(state: TokenizerState): boolean {
+  const { index } = state;
+  const match = matchAt(state, /%([qQwWiIsrx]?)([^\w\s])/, index);
+  if (!match || !startsOperand(state)) {
+    return false;
+  }
+  
+  const kind = match[1];
+  const open = match[2];
+  const close = PAIRED_DELIMITERS[open] || open;
+  const valueStart = index + match[0].length;
+  const allowsInterpolation = kind === '' || kind === 'Q' || kind === 'W' || kind === 'I' || kind === 'r' || kind === 'x';
+  const type: RubyTokenType = kind === 'w' || kind === 'W' || kind === 'i' || kind === 'I'
+    ? 'words'
+    : kind === 's' ? 'symbol' : kind === 'r' ? 'regexp' : 'string';
+  
+  const token = readQuotedString(state, type, index, valueStart, close, allowsInterpolation, close !== open ? open : undefined);
+  if (type === 'words') {
+    token.words = [];
+    const wordRegex = /\S+/g;
+    let wordMatch;
+    while ((wordMatch = wordRegex.exec(token.value!)) !== null) {
+      const wordStart = valueStart + wordMatch.index;
+      token.words.push({ value: wordMatch[0], start: wordStart, end: wordStart + wordMatch[0].length });
+    }
+  }
+  if (type === 'regexp') {
+    skipRegexpFlags(state);
+  }
+  
+  return true;
+}
+
+/**
+ * 정규식 리터럴 읽기 (/pattern/flags)
+ */
+function readRegexp(state: TokenizerState): boolean {
+  const { text, index } = state;
+  let position = index + 1;
+  let inClass = false;
+  
+  while (position < state.end && text[position] !== '\n') {
+    const char = text[position];
+    if (char === '\\') {
+      position += 2;
+      continue;
+    }
+    if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      pushToken(state, 'regexp', index, position + 1);
+      skipRegexpFlags(state);
+      return true;
+    }
+    position++;
+  }
+  
+  // 닫히지 않으면 나눗셈 연산자
+  return false;
+}
+
+/**
+ * 정규식 플래그 건너뛰기
+ */
+function skipRegexpFlags(state: TokenizerState): void {
+  const token = state.tokens[state.tokens.length - 1];
+  while (state.index < state.end && /[imxounse]/.test(state.text[state.index])) {
+    state.index++;
+  }
+  token.end = state.index;
+  token.text = state.text.substring(token.start, token.end);
+}
+
+/**
+ * 히어독 시작 읽기 (<<~EOS, <<-EOS, <<EOS, <<~'EOS') - 본문은 다음 줄바꿈에서 건너뜀
+ */
+function readHeredocStart(state: TokenizerState): boolean {
+  const { index } = state;
+  const match = matchAt(state, /<<([~-]?)(?:(["'`])(\w+)\2|([A-Za-z_]\w*))/, index);
+  if (!match) {
+    return false;
+  }
+  
+  // a <<b, a << B 같은 추가 연산자와 구분
+  const isBareIdentifier = match[1] === '' && match[4] !== undefined;
+  if (isBareIdentifier && !(startsOperand(state) && /^[A-Z_][A-Z0-9_]*$/.test(match[4]))) {
+    return false;
+  }
+  if (!startsOperand(state) && !state.spaceBefore) {
+    return false;
+  }
+  
+  state.heredocs.push({ terminator: match[3] || match[4], isIndented: match[1] !== '' });
+  pushToken(state, 'string', index, index + match[0].length);
+  return true;
+}
+
+/**
+ * 줄바꿈 다음에 이어지는 히어독 본문 건너뛰기
+ */
+function skipHeredocBodies(state: TokenizerState): void {
+  const { text } = state;
+  
+  while (state.heredocs.length > 0) {
+    const heredoc = state.heredocs.shift()!;
+    while (state.index < state.end) {
+      const lineEnd = findLineEnd(state, state.index);
+      const line = text.substring(state.index, lineEnd).replace(/\r$/, '');
+      state.index = Math.min(lineEnd + 1, state.end);
+      if ((heredoc.isIndented ? line.trim() : line) === heredoc.terminator) {
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * =begin ... =end 주석 건너뛰기
+ */
+function skipEmbeddedDocument(state: TokenizerState): void {
+  const { text } = state;
+  if (!text.startsWith('=begin', state.index)) {
+    return;
+  }
+  
+  const endMatch = /^=end\b.*$/m;
+  const rest = text.substring(state.index, state.end);
+  const match = rest.match(endMatch);
+  const end = match ? state.index + match.index! + match[0].length : state.end;
+  pushToken(state, 'comment', state.index, end);
+}
+
+/**
+ * 문자 리터럴 읽기 (?a) - 삼항 연산자이면 false
+ */
+function readCharacterLiteral(state: TokenizerState): boolean {
+  const { index } = state;
+  const match = matchAt(state, /\?(?:\\.|[^\s\w])(?!\w)/, index);
+  if (!match || !startsOperand(state)) {
+    return false;
+  }
+  
+  pushToken(state, 'string', index, index + match[0].length);
+  return true;
+}
+
+/**
+ * 식별자, 상수, 레이블 읽기 (t, t!, I18n, name:)
+ */
+function readIdentifier(state: TokenizerState): void {
+  const { text, index } = state;
+  const match = matchAt(state, /[A-Za-z_]\w*/, index)!;
+  let end = index + match[0].length;
+  
+  // 메소드 이름의 ? ! (a != b, a ?b : c 와 구분)
+  if ((text[end] === '!' || text[end] === '?') && text[end + 1] !== '=' && !/[\w"':]/.test(text[end + 1] || '')) {
+    end++;
+  }
+  
+  // 해시 키 레이블 (name: value) - :: 와 구분
+  if (text[end] === ':' && text[end + 1] !== ':') {
+    const previous = lastToken(state);
+    const isTernary = previous !== undefined && previous.type === 'operator' && previous.text === '?';
+    if (!isTernary) {
+      pushToken(state, 'label', index, end + 1, { value: text.substring(index, end), valueStart: index, valueEnd: end });
+      return;
+    }
+  }
+  
+  pushToken(state, /^[A-Z]/.test(match[0]) ? 'constant' : 'identifier', index, end);
+}
\ No newline at end of file
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { I18nEntry, I18nLocalesScanner } from './i18nLocalesScanner';
+import { isLocaleCode } from './i18nLocale';
+import { collectKeyNodes, YamlKeyNode } from './i18nYamlEditor';
+
+// 워크스페이스 심볼 검색 결과의 최대 수
+const MAX_WORKSPACE_SYMBOLS = 200;
+
+// 심볼 이름에 표시할 번역 값의 최대 길이
+const MAX_VALUE_LENGTH = 60;
+
+export class I18nSymbolProvider implements vscode.DocumentSymbolProvider, vscode.WorkspaceSymbolProvider {
+  private outputChannel: vscode.OutputChannel;
+  private debugMode: boolean = false;
+  
+  constructor(private localesScanner: I18nLocalesScanner, outputChannel: vscode.OutputChannel) {
+    this.outputChannel = outputChannel;
+    this.updateDebugMode();
+  }
+  
+  /**
+   * 디버그 모드 설정 업데이트
+   */
+  private updateDebugMode(): void {
+    const config = vscode.workspace.getConfiguration('rails-i18n');
+    this.debugMode = config.get('debugMode') || false;
+  }
+  
+  /**
+   * 로그 출력
+   */
+  private log(message: string, force: boolean = false): void {
+    if (force || this.debugMode) {
+      console.log(message);
+      this.outputChannel.appendLine(message);
+    }
+  }
+  
+  /**
+   * 로케일 파일의 키 트리 (세부 정보는 최상위 언어 키를 제외한 전체 키)
+   */
+  public provideDocumentSymbols(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.DocumentSymbol[]> {
+    if (!this.localesScanner.isLocaleFilePath(document.fileName)) {
+      return undefined;
+    }
+    
+    this.updateDebugMode();
+    const symbols = collectKeyNodes(document.getText()).map(keyNode => createDocumentSymbol(document, keyNode));
+    this.log(`문서 심볼: ${document.fileName} - 최상위 ${symbols.length}개`, this.debugMode);
+    return symbols;
+  }
+  
+  /**
+   * 모든 로케일의 키 또는 번역 값으로 검색
+   */
+  public provideWorkspaceSymbols(
+    query: string,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.SymbolInformation[]> {
+    const normalizedQuery = query.trim().toLowerCase();
+    if (!normalizedQuery) {
+      return [];
+    }
+    
+    this.updateDebugMode();
+    const symbols: vscode.SymbolInformation[] = [];
+    
+    for (const entry of this.localesScanner.getEntries()) {
+      if (token.isCancellationRequested || symbols.length >= MAX_WORKSPACE_SYMBOLS) {
+        break;
+      }
+      
+      const value = toSingleLine(entry.value);
+      if (matchesSubsequence(entry.key.toLowerCase(), normalizedQuery)) {
+        symbols.push(createSymbolInformation(entry, entry.key, `${entry.lang || ''}: ${truncate(value)}`));
+      } else if (value.toLowerCase().includes(normalizedQuery)) {
+        // 편집기가 심볼 이름으로 결과를 다시 거르므로 값으로 찾은 항목은 값을 이름으로 사용
+        symbols.push(createSymbolInformation(entry, value, `${entry.key} (${entry.lang || ''})`));
+      }
+    }
+    
+    this.log(`워크스페이스 심볼 검색: "${query}" - ${symbols.length}개`, this.debugMode);
+    return symbols;
+  }
+}
+
+/**
+ * 키 노드를 문서 심볼로 변환 (하위 키가 있으면 네임스페이스, 없으면 번역 값)
+ */
+function createDocumentSymbol(document: vscode.TextDocument, keyNode: YamlKeyNode): vscode.DocumentSymbol {
+  const keyPath = isLocaleCode(keyNode.keyPath[0]) ? keyNode.keyPath.slice(1) : keyNode.keyPath;
+  const symbol = new vscode.DocumentSymbol(
+    keyNode.keyPath[keyNode.keyPath.length - 1],
+    keyPath.join('.'),
+    keyNode.children.length > 0 ? vscode.SymbolKind.Namespace : vscode.SymbolKind.String,
+    new vscode.Range(document.positionAt(keyNode.keyStart), document.positionAt(keyNode.end)),
+    new vscode.Range(document.positionAt(keyNode.keyStart), document.positionAt(keyNode.keyEnd))
+  );
+  symbol.children = keyNode.children.map(child => createDocumentSymbol(document, child));
+  return symbol;
+}
+
+/**
+ * 항목의 정의 위치를 가리키는 심볼 정보 (키부터 값까지의 범위)
+ */
+function createSymbolInformation(entry: I18nEntry, name: string, containerName: string): vscode.SymbolInformation {
+  const line = entry.fileLine !== undefined ? entry.fileLine - 1 : 0;
+  const range = entry.keyRange
+    ? entry.keyRange.union(entry.valueRange || entry.keyRange)
+    : new vscode.Range(line, 0, line, 0);
+  return new vscode.SymbolInformation(
+    name,
+    vscode.SymbolKind.String,
+    containerName,
+    new vscode.Location(vscode.Uri.file(entry.file), range)
+  );
+}
+
+/**
+ * 검색어의 문자가 순서대로 모두 포함되어 있는지 확인 (uit → users.index.title)
+ */
+function matchesSubsequence(text: string, query: string): boolean {
+  let index = 0;
+  for (const char of query) {
+    index = text.indexOf(char, index);
+    if (index === -1) {
+      return false;
+    }
+    index++;
+  }
+  return true;
+}
+
+/**
+ * 여러 줄의 값을 한 줄로 변환
+ */
+function toSingleLine(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 최대 길이를 넘으면 말줄임표 추가
+ */
+function truncate(value: string): string {
+  return value.length > MAX_VALUE_LENGTH ? `${value.substring(0, MAX_VALUE_LENGTH - 1)}…` : value;
+}
\ No newline at end of file
@@ -0,0 +1,432 @@
+import * as vscode from 'vscode';
+import { I18nLocalesScanner } from './i18nLocalesScanner';
+import { I18nTranslationWriter } from './i18nTranslationWriter';
+
+// 로케일 변경 후 표 갱신까지의 지연 시간 (ms)
+const UPDATE_DELAY = 300;
+
+// 웹뷰 패널 유형
+const VIEW_TYPE = 'railsI18nTranslationMatrix';
+
+/**
+ * 표의 한 행 (키 하나의 로케일별 값)
+ */
+interface MatrixRow {
+  key: string;
+  values: { [lang: string]: string }; // 키가 있는 로케일의 값
+  plurals: string[]; // 복수형 키라서 표에서 수정할 수 없는 로케일
+  aliases: string[]; // 별칭이나 병합 키(<<)로 가져온 값이라서 표에서 수정할 수 없는 로케일
+}
+
+/**
+ * 웹뷰에서 받는 메시지
+ */
+type MatrixMessage =
+  | { type: 'ready' }
+  | { type: 'edit', key: string, locale: string, value: string }
+  | { type: 'reveal', key: string, locale?: string };
+
+export class I18nTranslationMatrix implements vscode.Disposable {
+  private outputChannel: vscode.OutputChannel;
+  private panel: vscode.WebviewPanel | undefined;
+  private pendingUpdate: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
+  
+  constructor(
+    private localesScanner: I18nLocalesScanner,
+    outputChannel: vscode.OutputChannel,
+    private translationWriter: I18nTranslationWriter
+  ) {
+    this.outputChannel = outputChannel;
+    this.disposables.push(this.localesScanner.onDidUpdateEntries(() => this.scheduleUpdate()));
+  }
+  
+  /**
+   * 로그 출력
+   */
+  private log(message: string): void {
+    console.log(message);
+    this.outputChannel.appendLine(message);
+  }
+  
+  /**
+   * 번역 매트릭스 열기 (이미 열려 있으면 앞으로 가져오기)
+   */
+  public open(): void {
+    if (this.panel) {
+      this.panel.reveal();
+      return;
+    }
+    
+    const panel = vscode.window.createWebviewPanel(VIEW_TYPE, 'I18n 번역 매트릭스', vscode.ViewColumn.Active, {
+      enableScripts: true,
+      retainContextWhenHidden: true
+    });
+    panel.webview.html = createHtml(panel.webview);
+    panel.webview.onDidReceiveMessage((message: MatrixMessage) => this.handleMessage(message), null, this.disposables);
+    panel.onDidDispose(() => {
+      this.panel = undefined;
+    }, null, this.disposables);
+    
+    this.panel = panel;
+  }
+  
+  /**
+   * 웹뷰 메시지 처리
+   */
+  private async handleMessage(message: MatrixMessage): Promise<void> {
+    switch (message.type) {
+      case 'ready':
+        this.postData();
+        break;
+      case 'edit':
+        await this.editValue(message.key, message.locale, message.value);
+        break;
+      case 'reveal':
+        await this.revealKey(message.key, message.locale);
+        break;
+    }
+  }
+  
+  /**
+   * 셀에서 수정한 값을 로케일 파일에 저장 (실패하면 웹뷰에 알리고 원래 값으로 되돌림)
+   */
+  private async editValue(key: string, locale: string, value: string): Promise<void> {
+    try {
+      const filePath = await this.translationWriter.setTranslation(key, locale, value);
+      this.log(`번역 매트릭스에서 수정: ${key} [${locale}] -> ${filePath}`);
+    } catch (error) {
+      console.error('번역 수정 중 오류 발생:', error);
+      vscode.window.showErrorMessage(`번역 수정 중 오류가 발생했습니다: ${error instanceof Error ? error.message : error}`);
+      this.postData();
+    }
+  }
+  
+  /**
+   * 키의 정의 위치 열기 (로케일을 지정하면 그 로케일의 값, 지정하지 않으면 처음 찾은 항목의 키 선택)
+   */
+  private async revealKey(key: string, locale?: string): Promise<void> {
+    const entry = locale ? this.localesScanner.getEntry(key, locale) : this.localesScanner.getEntriesForKey(key)[0];
+    if (!entry) {
+      return;
+    }
+    
+    const line = entry.fileLine !== undefined ? entry.fileLine - 1 : 0;
+    await vscode.window.showTextDocument(vscode.Uri.file(entry.file), {
+      viewColumn: vscode.ViewColumn.Beside,
+      selection: (locale && entry.valueRange) || entry.keyRange || new vscode.Range(line, 0, line, 0)
+    });
+  }
+  
+  /**
+   * 로케일이 바뀌면 일정 시간 후에 표 갱신
+   */
+  private scheduleUpdate(): void {
+    if (!this.panel) {
+      return;
+    }
+    
+    if (this.pendingUpdate) {
+      clearTimeout(this.pendingUpdate);
+    }
+    this.pendingUpdate = setTimeout(() => {
+      this.pendingUpdate = undefined;
+      this.postData();
+    }, UPDATE_DELAY);
+  }
+  
+  /**
+   * 스캐너의 색인으로 만든 표 데이터를 웹뷰에 전송
+   */
+  private postData(): void {
+    if (!this.panel) {
+      return;
+    }
+    
+    const rows = new Map<string, MatrixRow>();
+    for (const entry of this.localesScanner.getEntries()) {
+      if (!entry.lang) {
+        continue;
+      }
+      
+      const row = rows.get(entry.key) || { key: entry.key, values: {}, plurals: [], aliases: [] };
+      row.values[entry.lang] = entry.value;
+      if (entry.plurals) {
+        row.plurals.push(entry.lang);
+      } else if (entry.aliasRange) {
+        row.aliases.push(entry.lang);
+      }
+      rows.set(entry.key, row);
+    }
+    
+    this.panel.webview.postMessage({
+      type: 'data',
+      locales: this.localesScanner.getLanguageCodes(),
+      rows: Array.from(rows.values()).sort((a, b) => a.key.localeCompare(b.key))
+    });
+  }
+  
+  /**
+   * 리소스 해제
+   */
+  public dispose(): void {
+    if (this.pendingUpdate) {
+      clearTimeout(this.pendingUpdate);
+    }
+    if (this.panel) {
+      this.panel.dispose();
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
+
+/**
+ * 웹뷰 HTML (필터와 표는 웹뷰 안의 스크립트에서 렌더링)
+ */
+function createHtml(webview: vscode.Webview): string {
+  const nonce = createNonce();
+  
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>I18n 번역 매트릭스</title>
+  <style>
+    body { padding: 0 12px; color: var(--vscode-foreground); font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); }
+    .toolbar { position: sticky; top: 0; z-index: 2; display: flex; gap: 8px; align-items: center; padding: 8px 0; background: var(--vscode-editor-background); }
+    .toolbar input, .toolbar select { padding: 3px 6px; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+    .toolbar input { flex: 1; }
+    .summary { color: var(--vscode-descriptionForeground); white-space: nowrap; }
+    table { border-collapse: collapse; width: 100%; table-layout: fixed; }
+    th, td { padding: 4px 6px; border: 1px solid var(--vscode-panel-border); vertical-align: top; text-align: left; overflow-wrap: anywhere; white-space: pre-wrap; }
+    th { position: sticky; top: 40px; z-index: 1; background: var(--vscode-editor-background); }
+    td.key { font-family: var(--vscode-editor-font-family); cursor: pointer; }
+    td.key:hover { text-decoration: underline; }
+    td.value { cursor: text; }
+    td.missing { background: var(--vscode-inputValidation-warningBackground); color: var(--vscode-descriptionForeground); font-style: italic; }
+    td.readonly { color: var(--vscode-disabledForeground); cursor: default; }
+    td.saving { opacity: 0.6; }
+    td textarea { width: 100%; box-sizing: border-box; font: inherit; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-focusBorder); resize: vertical; }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <select id="namespace" title="네임스페이스"><option value="">모든 네임스페이스</option></select>
+    <select id="missing" title="누락된 로케일"><option value="">모든 키</option></select>
+    <input id="search" type="search" placeholder="키 또는 번역 값 검색">
+    <span id="summary" class="summary"></span>
+  </div>
+  <table>
+    <thead><tr id="header"></tr></thead>
+    <tbody id="rows"></tbody>
+  </table>
+  <script nonce="${nonce}">
+    (function () {
+      const vscode = acquireVsCodeApi();
+      const MAX_ROWS = 500;
+      const namespaceSelect = document.getElementById('namespace');
+      const missingSelect = document.getElementById('missing');
+      const searchInput = document.getElementById('search');
+      const summary = document.getElementById('summary');
+      const header = document.getElementById('header');
+      const tbody = document.getElementById('rows');
+      let data = { locales: [], rows: [] };
+      let searchTimer;
+      let hasPendingData = false;
+      
+      window.addEventListener('message', function (event) {
+        if (event.data.type !== 'data') {
+          return;
+        }
+        data = event.data;
+        
+        // 수정 중인 셀이 있으면 수정이 끝난 뒤에 다시 그리기
+        if (tbody.querySelector('textarea')) {
+          hasPendingData = true;
+          return;
+        }
+        updateFilters();
+        render();
+      });
+      
+      namespaceSelect.addEventListener('change', render);
+      missingSelect.addEventListener('change', render);
+      searchInput.addEventListener('input', function () {
+        clearTimeout(searchTimer);
+        searchTimer = setTimeout(render, 200);
+      });
+      
+      tbody.addEventListener('click', function (event) {
+        const cell = event.target.closest('td');
+        if (!cell || cell.querySelector('textarea')) {
+          return;
+        }
+        if (cell.classList.contains('key')) {
+          vscode.postMessage({ type: 'reveal', key: cell.dataset.key });
+        } else if (!cell.classList.contains('readonly')) {
+          startEdit(cell);
+        }
+      });
+      
+      function updateFilters() {
+        const namespaces = Array.from(new Set(data.rows.map(function (row) { return row.key.split('.')[0]; }))).sort();
+        fillSelect(namespaceSelect, '모든 네임스페이스', namespaces);
+        fillSelect(missingSelect, '모든 키', data.locales, function (locale) { return locale + ' 누락'; });
+      }
+      
+      function fillSelect(select, allLabel, values, label) {
+        const selected = select.value;
+        select.textContent = '';
+        select.appendChild(new Option(allLabel, ''));
+        values.forEach(function (value) {
+          select.appendChild(new Option(label ? label(value) : value, value));
+        });
+        select.value = values.indexOf(selected) !== -1 ? selected : '';
+      }
+      
+      function getFilteredRows() {
+        const namespace = namespaceSelect.value;
+        const missing = missingSelect.value;
+        const search = searchInput.value.trim().toLowerCase();
+        
+        return data.rows.filter(function (row) {
+          if (namespace && row.key !== namespace && row.key.indexOf(namespace + '.') !== 0) {
+            return false;
+          }
+          if (missing && row.values[missing] !== undefined) {
+            return false;
+          }
+          if (!search) {
+            return true;
+          }
+          return row.key.toLowerCase().indexOf(search) !== -1 || data.locales.some(function (locale) {
+            const value = row.values[locale];
+            return value !== undefined && value.toLowerCase().indexOf(search) !== -1;
+          });
+        });
+      }
+      
+      function render() {
+        header.textContent = '';
+        ['키'].concat(data.locales).forEach(function (title) {
+          const th = document.createElement('th');
+          th.textContent = title;
+          header.appendChild(th);
+        });
+        
+        const rows = getFilteredRows();
+        tbody.textContent = '';
+        rows.slice(0, MAX_ROWS).forEach(function (row) {
+          const tr = document.createElement('tr');
+          const keyCell = document.createElement('td');
+          keyCell.className = 'key';
+          keyCell.textContent = row.key;
+          keyCell.title = '정의로 이동';
+          keyCell.dataset.key = row.key;
+          tr.appendChild(keyCell);
+          
+          data.locales.forEach(function (locale) {
+            tr.appendChild(createValueCell(row, locale));
+          });
+          tbody.appendChild(tr);
+        });
+        
+        summary.textContent = rows.length > MAX_ROWS
+          ? rows.length + '개 키 중 ' + MAX_ROWS + '개 표시'
+          : rows.length + '개 키';
+      }
+      
+      function createValueCell(row, locale) {
+        const cell = document.createElement('td');
+        const value = row.values[locale];
+        cell.dataset.key = row.key;
+        cell.dataset.locale = locale;
+        
+        if (row.plurals.indexOf(locale) !== -1) {
+          cell.className = 'value readonly';
+          cell.textContent = value;
+          cell.title = '복수형 키는 로케일 파일에서 직접 수정하세요';
+        } else if (row.aliases.indexOf(locale) !== -1) {
+          cell.className = 'value readonly';
+          cell.textContent = value;
+          cell.title = '별칭이나 병합 키(<<)로 가져온 값은 로케일 파일의 앵커 쪽 키에서 수정하세요';
+        } else if (value === undefined) {
+          cell.className = 'value missing';
+          cell.textContent = '번역 없음';
+        } else {
+          cell.className = 'value';
+          cell.textContent = value;
+        }
+        return cell;
+      }
+      
+      function startEdit(cell) {
+        const row = data.rows.find(function (row) { return row.key === cell.dataset.key; });
+        const original = row.values[cell.dataset.locale];
+        const textarea = document.createElement('textarea');
+        textarea.value = original !== undefined ? original : '';
+        textarea.rows = Math.max(1, textarea.value.split('\\n').length);
+        cell.textContent = '';
+        cell.appendChild(textarea);
+        textarea.focus();
+        
+        let finished = false;
+        function finish(save) {
+          if (finished) {
+            return;
+          }
+          finished = true;
+          
+          if (hasPendingData) {
+            hasPendingData = false;
+            setTimeout(function () {
+              updateFilters();
+              render();
+            });
+          }
+          
+          const value = textarea.value;
+          const changed = save && value !== (original !== undefined ? original : '') && (original !== undefined || value !== '');
+          if (!changed) {
+            cell.replaceWith(createValueCell(row, cell.dataset.locale));
+            return;
+          }
+          
+          row.values[cell.dataset.locale] = value;
+          const savingCell = createValueCell(row, cell.dataset.locale);
+          savingCell.classList.add('saving');
+          cell.replaceWith(savingCell);
+          vscode.postMessage({ type: 'edit', key: row.key, locale: cell.dataset.locale, value: value });
+        }
+        
+        textarea.addEventListener('blur', function () { finish(true); });
+        textarea.addEventListener('keydown', function (event) {
+          if (event.key === 'Enter' && !event.shiftKey) {
+            event.preventDefault();
+            finish(true);
+          } else if (event.key === 'Escape') {
+            finish(false);
+          }
+        });
+      }
+      
+      vscode.postMessage({ type: 'ready' });
+    })();
+  </script>
+</body>
+</html>`;
+}
+
+/**
+ * 스크립트 허용에 사용할 임의 문자열
+ */
+function createNonce(): string {
+  const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let nonce = '';
+  for (let index = 0; index < 32; index++) {
+    nonce += characters.charAt(Math.floor(Math.random() * characters.length));
+  }
+  return nonce;
+}
\ No newline at end of file
@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import * as yaml from 'yaml';
+import { I18nLocalesScanner } from './i18nLocalesScanner';
+import { createKeyInsertion, createKeyRemoval, createTextReplacement, createValueReplacement, findRootKey } from './i18nYamlEditor';
+import { isLocaleCode, normalizeLocaleCode } from './i18nLocale';
+
+export class I18nTranslationWriter {
+  private outputChannel: vscode.OutputChannel;
+  
+  constructor(private localesScanner: I18nLocalesScanner, outputChannel: vscode.OutputChannel) {
+    this.outputChannel = outputChannel;
+  }
+  
+  /**
+   * 로그 출력
+   */
+  private log(message: string): void {
+    console.log(message);
+    this.outputChannel.appendLine(message);
+  }
+  
+  /**
+   * 번역 키를 해당 언어의 로케일 파일에 추가
+   */
+  public async addTranslation(key: string, lang: string, value: string): Promise<string> {
+    const [filePath] = await this.addTranslations(key, new Map([[lang, value]]));
+    return filePath;
+  }
+  
+  /**
+   * 여러 언어의 번역 키를 한 번의 편집으로 추가 (edit에 담긴 다른 변경도 함께 적용, 수정한 파일 목록 반환)
+   */
+  public async addTranslations(key: string, values: Map<string, string>, edit = new vscode.WorkspaceEdit()): Promise<string[]> {
+    // 파일별 언어와 값 (하나의 파일에 여러 언어가 있을 수 있음)
+    const fileValues = new Map<string, Map<string, string>>();
+    for (const [lang, value] of values) {
+      const filePath = this.localesScanner.findBestFileForKey(key, lang);
+      if (!filePath) {
+        throw new Error(`${lang} 로케일 파일을 찾을 수 없습니다.`);
+      }
+      
+      const langValues = fileValues.get(filePath) || new Map<string, string>();
+      langValues.set(lang, value);
+      fileValues.set(filePath, langValues);
+    }
+    
+    const documents: Array<{ document: vscode.TextDocument, langs: string[] }> = [];
+    
+    for (const [filePath, langValues] of fileValues) {
+      const document = await vscode.workspace.openTextDocument(filePath);
+      const original = document.getText();
+      let content = original;
+      
+      for (const [lang, value] of langValues) {
+        const insertion = createKeyInsertion(content, this.getKeyPath(content, key, lang), value);
+        content = content.substring(0, insertion.offset) + insertion.text + content.substring(insertion.offset);
+      }
+      
+      const replacement = createTextReplacement(original, content);
+      edit.replace(
+        document.uri,
+        new vscode.Range(document.positionAt(replacement.offset), document.positionAt(replacement.offset + replacement.length)),
+        replacement.text
+      );
+      documents.push({ document, langs: Array.from(langValues.keys()) });
+    }
+    
+    if (!await this.applyEdit(edit, documents.map(({ document }) => document))) {
+      throw new Error(`"${key}" 키를 추가할 수 없습니다.`);
+    }
+    
+    documents.forEach(({ document, langs }) => this.log(`번역 추가: ${key} [${langs.join(', ')}] -> ${document.fileName}`));
+    
+    return documents.map(({ document }) => document.fileName);
+  }
+  
+  /**
+   * 번역 값 변경 (해당 언어에 키가 없으면 로케일 파일에 추가)
+   */
+  public async setTranslation(key: string, lang: string, value: string): Promise<string> {
+    const entry = this.localesScanner.getEntry(key, lang);
+    if (!entry) {
+      return this.addTranslation(key, lang, value);
+    }
+    
+    if (entry.plurals) {
+      throw new Error(`"${key}" 키는 복수형 키라서 값을 바꿀 수 없습니다.`);
+    }
+    
+    if (entry.aliasRange) {
+      throw new Error(`"${key}" 키는 별칭이나 병합 키(<<)로 가져온 값이라서 바꿀 수 없습니다. 앵커 쪽 키를 수정하세요.`);
+    }
+    
+    const document = await vscode.workspace.openTextDocument(entry.file);
+    const content = document.getText();
+    const replacement = createValueReplacement(content, this.getKeyPath(content, key, lang), value);
+    
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      document.uri,
+      new vscode.Range(document.positionAt(replacement.offset), document.positionAt(replacement.offset + replacement.length)),
+      replacement.text
+    );
+    if (!await this.applyEdit(edit, [document])) {
+      throw new Error(`${entry.file} 파일을 수정할 수 없습니다.`);
+    }
+    
+    this.log(`번역 변경: ${key} [${lang}] -> ${entry.file}`);
+    
+    return entry.file;
+  }
+  
+  /**
+   * 번역 키를 정의된 모든 로케일 파일에서 삭제 (수정한 파일 목록 반환)
+   */
+  public async removeTranslation(key: string): Promise<string[]> {
+    // 여러 파일에 같은 언어로 정의되어 가려진 항목도 함께 삭제
+    const entries = this.localesScanner.getDefinitionsForKey(key);
+    if (entries.some(entry => entry.aliasRange)) {
+      throw new Error(`"${key}" 키는 별칭이나 병합 키(<<)로 가져온 값이 있어 삭제할 수 없습니다. 앵커 쪽 키를 수정하세요.`);
+    }
+    
+    // 파일별 언어 목록 (하나의 파일에 여러 언어가 있을 수 있음)
+    const fileLangs = new Map<string, Set<string>>();
+    for (const entry of entries) {
+      const langs = fileLangs.get(entry.file) || new Set<string>();
+      langs.add(entry.lang || '');
+      fileLangs.set(entry.file, langs);
+    }
+    
+    const edit = new vscode.WorkspaceEdit();
+    const documents: vscode.TextDocument[] = [];
+    
+    for (const [filePath, langs] of fileLangs) {
+      const document = await vscode.workspace.openTextDocument(filePath);
+      const original = document.getText();
+      let content = original;
+      
+      for (const lang of langs) {
+        const keyPath = this.getKeyPath(content, key, lang);
+        const removal = createKeyRemoval(content, keyPath, keyPath.length - key.split('.').length);
+        content = content.substring(0, removal.offset) + removal.text + content.substring(removal.offset + removal.length);
+      }
+      
+      const replacement = createTextReplacement(original, content);
+      edit.replace(
+        document.uri,
+        new vscode.Range(document.positionAt(replacement.offset), document.positionAt(replacement.offset + replacement.length)),
+        replacement.text
+      );
+      documents.push(document);
+    }
+    
+    if (!await this.applyEdit(edit, documents)) {
+      throw new Error(`"${key}" 키를 삭제할 수 없습니다.`);
+    }
+    
+    documents.forEach(document => this.log(`번역 삭제: ${key} -> ${document.fileName}`));
+    
+    return documents.map(document => document.fileName);
+  }
+  
+  /**
+   * 편집을 적용한 뒤 로케일 파일을 저장하고 다시 스캔
+   * (편집 전부터 저장하지 않은 변경이 있던 파일은 사용자의 변경까지 저장하지 않도록 그대로 둠)
+   */
+  private async applyEdit(edit: vscode.WorkspaceEdit, documents: vscode.TextDocument[]): Promise<boolean> {
+    const dirtyDocuments = documents.filter(document => document.isDirty);
+    if (!await vscode.workspace.applyEdit(edit)) {
+      return false;
+    }
+    
+    for (const document of documents) {
+      if (dirtyDocuments.includes(document)) {
+        this.log(`저장하지 않은 변경이 있어 저장하지 않음: ${document.fileName}`);
+      } else {
+        await document.save();
+      }
+      
+      // 수정한 파일만 다시 스캔 (저장하지 않은 파일은 편집기의 내용으로)
+      await this.localesScanner.rescanFile(document.fileName, document.getText());
+    }
+    
+    return true;
+  }
+  
+  /**
+   * 파일 구조에 맞는 YAML 키 경로 계산
+   */
+  private getKeyPath(content: string, key: string, lang: string): string[] {
+    const keyParts = key.split('.');
+    
+    // 최상위 언어 키가 있으면 파일에 적힌 표기 그대로 사용 (pt-br:, pt_BR: 등)
+    const rootKey = findRootKey(content, rootKey => isLocaleCode(rootKey) && normalizeLocaleCode(rootKey) === lang);
+    if (rootKey) {
+      return [rootKey, ...keyParts];
+    }
+    
+    // 빈 파일이면 언어 키 아래에 추가
+    if (!yaml.parseDocument(content).contents) {
+      return [lang, ...keyParts];
+    }
+    
+    // 파일 이름으로 언어를 구분하는 파일은 최상위에 추가
+    return keyParts;
+  }
+}
\ No newline at end of file
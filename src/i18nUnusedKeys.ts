@@ -0,0 +1,281 @@
+import * as vscode from 'vscode';
+import { I18nEntry, I18nLocalesScanner } from './i18nLocalesScanner';
+import { I18nTranslationWriter } from './i18nTranslationWriter';
+import { createDynamicKeyPattern, getReferencedKeys, I18nUsageIndex } from './i18nUsageIndex';
+
+/**
+ * 트리 뷰 ID
+ */
+export const UNUSED_KEYS_VIEW_ID = 'railsI18nUnusedKeys';
+
+// 항상 사용 위치를 찾는 소스 파일
+const DEFAULT_SOURCE_GLOBS = ['app/**/*.{rb,erb}', 'lib/**/*.{rb,erb}'];
+
+// 코드에 키가 없어도 Rails가 규칙에 따라 조회하는 네임스페이스
+const CONVENTION_NAMESPACES = ['activerecord', 'activemodel', 'attributes', 'errors', 'helpers'];
+
+/**
+ * 키의 사용 여부
+ */
+type KeyUsageStatus = 'unused' | 'possiblyUsed';
+
+/**
+ * 로케일 파일 노드
+ */
+interface UnusedKeysFileNode {
+  type: 'file';
+  file: string;
+  keys: UnusedKeyNode[];
+}
+
+/**
+ * 사용하지 않는 키 노드
+ */
+interface UnusedKeyNode {
+  type: 'key';
+  key: string;
+  entry: I18nEntry;
+  status: KeyUsageStatus;
+  reason?: string; // 사용 가능성이 있는 이유
+  isAliased?: boolean; // 별칭이나 병합 키(<<)로만 생긴 정의가 있어 삭제할 수 없는지 여부
+}
+
+type UnusedKeysNode = UnusedKeysFileNode | UnusedKeyNode;
+
+/**
+ * 코드에서 찾은 키 사용 정보
+ */
+interface KeyUsageSummary {
+  staticKeys: Set<string>; // 정적 키와 default 옵션의 키
+  dynamicPatterns: Array<{ key: string, regex: RegExp }>; // #{}가 포함된 키
+}
+
+export class I18nUnusedKeys implements vscode.TreeDataProvider<UnusedKeysNode>, vscode.Disposable {
+  private outputChannel: vscode.OutputChannel;
+  private fileNodes: UnusedKeysFileNode[] = [];
+  private readonly changeEmitter = new vscode.EventEmitter<UnusedKeysNode | undefined>();
+  
+  /**
+   * 트리 내용이 바뀌었을 때 발생하는 이벤트
+   */
+  public readonly onDidChangeTreeData: vscode.Event<UnusedKeysNode | undefined> = this.changeEmitter.event;
+  
+  constructor(
+    private localesScanner: I18nLocalesScanner,
+    outputChannel: vscode.OutputChannel,
+    private usageIndex: I18nUsageIndex,
+    private translationWriter: I18nTranslationWriter
+  ) {
+    this.outputChannel = outputChannel;
+  }
+  
+  /**
+   * 로그 출력
+   */
+  private log(message: string): void {
+    console.log(message);
+    this.outputChannel.appendLine(message);
+  }
+  
+  /**
+   * 사용하지 않는 키를 찾아 트리 뷰에 표시
+   */
+  public async findUnusedKeys(): Promise<void> {
+    const fileNodes = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: '사용하지 않는 I18n 키를 찾는 중...' },
+      () => this.analyze()
+    );
+    
+    this.fileNodes = fileNodes;
+    this.changeEmitter.fire(undefined);
+    
+    const keyNodes = fileNodes.flatMap(fileNode => fileNode.keys);
+    const unusedCount = new Set(keyNodes.filter(node => node.status === 'unused').map(node => node.key)).size;
+    const possiblyUsedCount = new Set(keyNodes.filter(node => node.status === 'possiblyUsed').map(node => node.key)).size;
+    this.log(`사용하지 않는 키: ${unusedCount}개, 사용 가능성이 있는 키: ${possiblyUsedCount}개`);
+    
+    await vscode.commands.executeCommand('setContext', 'rails-i18n.unusedKeysVisible', true);
+    await vscode.commands.executeCommand(`${UNUSED_KEYS_VIEW_ID}.focus`);
+    
+    if (keyNodes.length === 0) {
+      vscode.window.showInformationMessage('사용하지 않는 I18n 키가 없습니다.');
+    }
+  }
+  
+  /**
+   * 키를 모든 로케일 파일에서 삭제하고 트리에서 제거
+   */
+  public async deleteKey(node: UnusedKeyNode): Promise<void> {
+    const answer = await vscode.window.showWarningMessage(
+      `"${node.key}" 키를 모든 로케일 파일에서 삭제할까요?`,
+      { modal: true },
+      '삭제'
+    );
+    if (answer !== '삭제') {
+      return;
+    }
+    
+    try {
+      const files = await this.translationWriter.removeTranslation(node.key);
+      vscode.window.showInformationMessage(`"${node.key}" 키를 ${files.length}개 로케일 파일에서 삭제했습니다.`);
+    } catch (error) {
+      console.error('키 삭제 중 오류 발생:', error);
+      vscode.window.showErrorMessage(`키 삭제 중 오류가 발생했습니다: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    
+    this.fileNodes = this.fileNodes
+      .map(fileNode => ({ ...fileNode, keys: fileNode.keys.filter(keyNode => keyNode.key !== node.key) }))
+      .filter(fileNode => fileNode.keys.length > 0);
+    this.changeEmitter.fire(undefined);
+  }
+  
+  /**
+   * 트리 항목 생성
+   */
+  public getTreeItem(node: UnusedKeysNode): vscode.TreeItem {
+    if (node.type === 'file') {
+      const item = new vscode.TreeItem(vscode.workspace.asRelativePath(node.file), vscode.TreeItemCollapsibleState.Expanded);
+      item.resourceUri = vscode.Uri.file(node.file);
+      item.description = `${node.keys.length}개`;
+      item.iconPath = vscode.ThemeIcon.File;
+      return item;
+    }
+    
+    const item = new vscode.TreeItem(node.key, vscode.TreeItemCollapsibleState.None);
+    // 별칭이나 병합 키로만 생긴 키는 삭제 메뉴 없이 표시 (앵커 쪽 키를 직접 수정)
+    item.contextValue = node.isAliased ? 'aliasedKey' : node.status === 'unused' ? 'unusedKey' : 'possiblyUsedKey';
+    item.iconPath = new vscode.ThemeIcon(node.status === 'unused' ? 'warning' : 'question');
+    item.description = node.status === 'unused' ? node.entry.value : `사용 가능성 있음: ${node.reason}`;
+    item.tooltip = `${node.key}\n${node.entry.value}${node.reason ? `\n\n사용 가능성 있음: ${node.reason}` : ''}`
+      + (node.isAliased ? '\n\n별칭이나 병합 키(<<)로 가져온 키라서 로케일 파일의 앵커 쪽 키에서 직접 수정하세요.' : '');
+    item.command = {
+      command: 'vscode.open',
+      title: '정의로 이동',
+      arguments: [
+        vscode.Uri.file(node.entry.file),
+        node.entry.fileLine !== undefined
+          ? { selection: new vscode.Range(node.entry.fileLine - 1, 0, node.entry.fileLine - 1, 0) }
+          : undefined
+      ]
+    };
+    return item;
+  }
+  
+  /**
+   * 하위 노드 (최상위는 로케일 파일)
+   */
+  public getChildren(node?: UnusedKeysNode): UnusedKeysNode[] {
+    if (!node) {
+      return this.fileNodes;
+    }
+    return node.type === 'file' ? node.keys : [];
+  }
+  
+  /**
+   * 모든 키의 사용 여부를 분석해 로케일 파일별로 묶기 (사용하지 않는 키 먼저)
+   */
+  private async analyze(): Promise<UnusedKeysFileNode[]> {
+    const config = vscode.workspace.getConfiguration('rails-i18n');
+    const ignorePatterns: string[] = config.get('unusedKeys.ignore') || [];
+    const usageSummary = await this.collectUsages(config.get('unusedKeys.sourceGlobs') || []);
+    const fileNodes = new Map<string, UnusedKeysFileNode>();
+    
+    for (const entry of this.localesScanner.getEntries()) {
+      if (ignorePatterns.some(pattern => matchesKeyPattern(entry.key, pattern))) {
+        continue;
+      }
+      
+      const keyNode = this.classifyKey(entry, usageSummary);
+      if (!keyNode) {
+        continue;
+      }
+      
+      const fileNode = fileNodes.get(entry.file) || { type: 'file', file: entry.file, keys: [] };
+      const isAliased = this.localesScanner.getDefinitionsForKey(entry.key).some(definition => definition.aliasRange);
+      fileNode.keys.push(isAliased ? { ...keyNode, isAliased } : keyNode);
+      fileNodes.set(entry.file, fileNode);
+    }
+    
+    const statusOrder: KeyUsageStatus[] = ['unused', 'possiblyUsed'];
+    return Array.from(fileNodes.values())
+      .map(fileNode => ({
+        ...fileNode,
+        keys: fileNode.keys.sort((a, b) =>
+          statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status) || a.key.localeCompare(b.key)
+        )
+      }))
+      .sort((a, b) => a.file.localeCompare(b.file));
+  }
+  
+  /**
+   * 키의 사용 여부 판단 (사용 중이면 undefined)
+   */
+  private classifyKey(entry: I18nEntry, usageSummary: KeyUsageSummary): UnusedKeyNode | undefined {
+    // 키 자체 또는 상위 네임스페이스(해시 조회)를 사용하는 경우
+    const keyParts = entry.key.split('.');
+    for (let length = keyParts.length; length > 0; length--) {
+      if (usageSummary.staticKeys.has(keyParts.slice(0, length).join('.'))) {
+        return undefined;
+      }
+    }
+    
+    const dynamicMatch = usageSummary.dynamicPatterns.find(pattern => pattern.regex.test(entry.key));
+    if (dynamicMatch) {
+      return { type: 'key', key: entry.key, entry, status: 'possiblyUsed', reason: `동적 키 ${dynamicMatch.key}` };
+    }
+    
+    const namespace = CONVENTION_NAMESPACES.find(namespace => entry.key.startsWith(`${namespace}.`));
+    if (namespace) {
+      return { type: 'key', key: entry.key, entry, status: 'possiblyUsed', reason: `Rails 규칙 (${namespace}.*)` };
+    }
+    
+    return { type: 'key', key: entry.key, entry, status: 'unused' };
+  }
+  
+  /**
+   * app/, lib/ 및 설정한 glob의 파일에서 키 사용 정보 수집
+   */
+  private async collectUsages(extraGlobs: string[]): Promise<KeyUsageSummary> {
+    const summary: KeyUsageSummary = { staticKeys: new Set<string>(), dynamicPatterns: [] };
+    const filePaths = new Set<string>();
+    
+    for (const workspaceFolder of vscode.workspace.workspaceFolders || []) {
+      for (const glob of [...DEFAULT_SOURCE_GLOBS, ...extraGlobs]) {
+        const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(workspaceFolder, glob));
+        uris.forEach(uri => filePaths.add(uri.fsPath));
+      }
+    }
+    
+    for (const filePath of filePaths) {
+      for (const usage of await this.usageIndex.getFileUsages(filePath)) {
+        if (usage.key.includes('#{')) {
+          summary.dynamicPatterns.push({ key: usage.key, regex: createDynamicKeyPattern(usage.key) });
+        }
+        getReferencedKeys(usage).forEach(key => summary.staticKeys.add(key));
+      }
+    }
+    
+    this.log(`사용 위치 분석: ${filePaths.size}개 파일, ${summary.staticKeys.size}개 키, ${summary.dynamicPatterns.length}개 동적 키`);
+    return summary;
+  }
+  
+  /**
+   * 리소스 해제
+   */
+  public dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * 무시 목록 패턴과 일치하는지 확인 (네임스페이스 또는 * 와일드카드, 예: date, admin.*.hint)
+ */
+function matchesKeyPattern(key: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return key === pattern || key.startsWith(`${pattern}.`);
+  }
+  
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^.]*')}(\\..*)?$`);
+  return regex.test(key);
+}
\ No newline at end of file
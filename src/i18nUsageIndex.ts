@@ -0,0 +1,309 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { findAllI18nCalls, I18nCall } from './i18nCallFinder';
+import { getDocumentI18nCalls } from './i18nDocumentCalls';
+import { resolveLazyKey } from './i18nLazyLookup';
+
+/**
+ * 워크스페이스 소스 파일에서 찾은 I18n 키 사용 위치
+ */
+export interface I18nUsage {
+  key: string; // 전체 키 (lazy lookup 해석 후, 동적 키는 #{} 포함)
+  callKey: string; // 호출의 키 (scope 옵션 포함, lazy lookup 해석 전)
+  literal?: string; // 호출에 적힌 키 문자열 (default_i18n_subject처럼 없으면 undefined)
+  isBareSymbol: boolean; // 따옴표 없는 심볼 키인지 여부 (:title)
+  defaultKeys: string[]; // default 옵션의 기본값 키
+  uri: vscode.Uri;
+  range: vscode.Range; // 키 문자열 범위
+}
+
+// 키 사용 위치를 찾을 소스 파일
+const SOURCE_FILES_GLOB = '**/*.{rb,erb}';
+
+// 사용 위치를 찾지 않을 폴더
+const SOURCE_EXCLUDE_GLOB = '**/{node_modules,vendor,tmp,log,.git}/**';
+
+// 워크스페이스 기준 상대 경로에서 제외할 폴더
+const EXCLUDED_PATH_PATTERN = /(^|\/)(node_modules|vendor|tmp|log|\.git)\//;
+
+// 초기 색인 중 다른 작업에 양보하는 파일 수
+const YIELD_INTERVAL = 50;
+
+export class I18nUsageIndex implements vscode.Disposable {
+  private outputChannel: vscode.OutputChannel;
+  private debugMode: boolean = false;
+  private fileUsages = new Map<string, I18nUsage[]>(); // 파일 경로 -> 사용 위치
+  private staleFiles = new Set<string>(); // 다시 색인할 파일 경로
+  private indexing: Promise<void> | undefined;
+  private disposables: vscode.Disposable[] = [];
+  
+  constructor(outputChannel: vscode.OutputChannel) {
+    this.outputChannel = outputChannel;
+    this.updateDebugMode();
+    
+    const watcher = vscode.workspace.createFileSystemWatcher(SOURCE_FILES_GLOB);
+    watcher.onDidCreate(uri => this.markStale(uri));
+    watcher.onDidChange(uri => this.markStale(uri));
+    watcher.onDidDelete(uri => {
+      this.fileUsages.delete(uri.fsPath);
+      this.staleFiles.delete(uri.fsPath);
+    });
+    
+    this.disposables.push(
+      watcher,
+      vscode.workspace.onDidChangeTextDocument(event => this.markStale(event.document.uri)),
+      vscode.workspace.onDidCloseTextDocument(document => this.markStale(document.uri)),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.reset())
+    );
+  }
+  
+  /**
+   * 디버그 모드 설정 업데이트
+   */
+  private updateDebugMode(): void {
+    const config = vscode.workspace.getConfiguration('rails-i18n');
+    this.debugMode = config.get('debugMode') || false;
+  }
+  
+  /**
+   * 로그 출력
+   */
+  private log(message: string, force: boolean = false): void {
+    if (force || this.debugMode) {
+      console.log(message);
+      this.outputChannel.appendLine(message);
+    }
+  }
+  
+  /**
+   * 키 또는 그 하위 키를 사용하는 정적 키 사용 위치 (default 옵션의 키 포함)
+   */
+  public async findUsages(key: string): Promise<I18nUsage[]> {
+    const usages = await this.getUsages();
+    return usages.filter(usage => getReferencedKeys(usage).some(referencedKey => isKeyOrChild(referencedKey, key)));
+  }
+  
+  /**
+   * 주어진 키 중 하나와 일치할 수 있는 #{} 동적 키 사용 위치
+   */
+  public async findDynamicUsages(keys: string[]): Promise<I18nUsage[]> {
+    const usages = await this.getUsages();
+    return usages.filter(usage => usage.key.includes('#{') && mightMatchDynamicKey(usage.key, keys));
+  }
+  
+  /**
+   * 파일의 사용 위치 (Ruby/ERB가 아닌 파일은 저장하지 않고 그때마다 분석)
+   */
+  public async getFileUsages(filePath: string): Promise<I18nUsage[]> {
+    await this.getUsages();
+    if (isSourceFilePath(filePath)) {
+      return this.fileUsages.get(filePath) || [];
+    }
+    
+    return this.createFileUsages(filePath) || [];
+  }
+  
+  /**
+   * 모든 사용 위치 (처음 호출할 때 워크스페이스를 색인하고, 이후에는 변경된 파일만 다시 색인)
+   */
+  public async getUsages(): Promise<I18nUsage[]> {
+    if (!this.indexing) {
+      this.indexing = this.indexWorkspace();
+    }
+    await this.indexing;
+    
+    this.staleFiles.forEach(filePath => this.indexFile(filePath));
+    this.staleFiles.clear();
+    
+    return Array.from(this.fileUsages.values()).flat();
+  }
+  
+  /**
+   * 워크스페이스의 모든 Ruby/ERB 파일 색인
+   */
+  private async indexWorkspace(): Promise<void> {
+    this.updateDebugMode();
+    const startTime = Date.now();
+    const uris = await vscode.workspace.findFiles(SOURCE_FILES_GLOB, SOURCE_EXCLUDE_GLOB);
+    
+    for (let index = 0; index < uris.length; index++) {
+      this.indexFile(uris[index].fsPath);
+      
+      // 큰 워크스페이스에서 확장 호스트를 오래 막지 않도록 양보
+      if (index % YIELD_INTERVAL === YIELD_INTERVAL - 1) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    }
+    
+    const usageCount = Array.from(this.fileUsages.values()).reduce((count, usages) => count + usages.length, 0);
+    this.log(`I18n 사용 위치 색인 완료: ${uris.length}개 파일, ${usageCount}개 호출 (${Date.now() - startTime}ms)`, true);
+  }
+  
+  /**
+   * 파일 하나 색인 (열려 있는 문서는 편집 중인 내용 사용)
+   */
+  private indexFile(filePath: string): void {
+    const usages = this.createFileUsages(filePath);
+    if (usages && usages.length > 0) {
+      this.fileUsages.set(filePath, usages);
+    } else {
+      this.fileUsages.delete(filePath);
+    }
+    this.log(`사용 위치 색인: ${filePath} (${usages ? usages.length : 0}개)`, this.debugMode);
+  }
+  
+  /**
+   * 파일의 I18n 호출을 사용 위치로 변환 (파일을 읽을 수 없으면 undefined)
+   */
+  private createFileUsages(filePath: string): I18nUsage[] | undefined {
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === filePath);
+    const text = openDocument ? openDocument.getText() : readFile(filePath);
+    if (text === undefined) {
+      return undefined;
+    }
+    
+    const calls = openDocument ? getDocumentI18nCalls(openDocument) : findAllI18nCalls(text, filePath.endsWith('.erb'));
+    const lineStarts = getLineStarts(text);
+    const uri = openDocument ? openDocument.uri : vscode.Uri.file(filePath);
+    const usages: I18nUsage[] = [];
+    
+    for (const call of calls) {
+      const key = resolveLazyKey(call.key, filePath, text, call.start);
+      if (!key) {
+        continue;
+      }
+      
+      usages.push({
+        key,
+        callKey: call.key,
+        literal: getCallKeyLiteral(text, call),
+        isBareSymbol: text[call.keyStart - 1] === ':',
+        defaultKeys: call.defaults ? call.defaults.keys : [],
+        uri,
+        range: new vscode.Range(positionAt(lineStarts, call.keyStart), positionAt(lineStarts, call.keyEnd))
+      });
+    }
+    
+    return usages;
+  }
+  
+  /**
+   * 변경된 소스 파일을 다음 조회 때 다시 색인하도록 표시
+   */
+  private markStale(uri: vscode.Uri): void {
+    if (uri.scheme !== 'file' || !isSourceFilePath(uri.fsPath) || !vscode.workspace.getWorkspaceFolder(uri)) {
+      return;
+    }
+    
+    if (EXCLUDED_PATH_PATTERN.test(vscode.workspace.asRelativePath(uri, false).replace(/\\/g, '/'))) {
+      return;
+    }
+    
+    this.staleFiles.add(uri.fsPath);
+  }
+  
+  /**
+   * 색인 초기화 (워크스페이스 폴더가 바뀌면 다음 조회 때 전체 색인)
+   */
+  private reset(): void {
+    this.indexing = undefined;
+    this.fileUsages.clear();
+    this.staleFiles.clear();
+  }
+  
+  /**
+   * 리소스 해제
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
+
+/**
+ * 호출에 적힌 키 문자열 (scope 옵션이 붙기 전, default_i18n_subject 같이 키 문자열이 없으면 undefined)
+ */
+export function getCallKeyLiteral(text: string, call: I18nCall): string | undefined {
+  const literal = text.substring(call.keyStart, call.keyEnd);
+  return literal === call.key || call.key.endsWith(`.${literal}`) ? literal : undefined;
+}
+
+/**
+ * 사용 위치가 참조하는 정적 키 (호출의 키와 default 옵션의 키, #{}가 포함된 키 제외)
+ */
+export function getReferencedKeys(usage: I18nUsage): string[] {
+  return usage.key.includes('#{') ? usage.defaultKeys : [usage.key, ...usage.defaultKeys];
+}
+
+/**
+ * 키가 네임스페이스 자체이거나 그 하위 키인지 확인
+ */
+export function isKeyOrChild(key: string, namespace: string): boolean {
+  return key === namespace || key.startsWith(`${namespace}.`);
+}
+
+/**
+ * #{}가 포함된 키와 일치할 수 있는 키의 정규식 (#{} 부분은 아무 문자열)
+ */
+export function createDynamicKeyPattern(dynamicKey: string): RegExp {
+  const pattern = dynamicKey
+    .split(/#\{[^}]*\}/)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.+');
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * #{}가 포함된 키가 주어진 키 중 하나와 일치할 수 있는지 확인
+ */
+function mightMatchDynamicKey(dynamicKey: string, keys: string[]): boolean {
+  const regex = createDynamicKeyPattern(dynamicKey);
+  return keys.some(key => regex.test(key));
+}
+
+/**
+ * 색인하는 Ruby/ERB 소스 파일인지 확인
+ */
+function isSourceFilePath(filePath: string): boolean {
+  return /\.(rb|erb)$/.test(filePath);
+}
+
+/**
+ * 디스크에서 소스 파일 읽기 (읽을 수 없으면 undefined)
+ */
+function readFile(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * 각 줄의 시작 오프셋
+ */
+function getLineStarts(text: string): number[] {
+  const lineStarts = [0];
+  for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+    lineStarts.push(index + 1);
+  }
+  return lineStarts;
+}
+
+/**
+ * 오프셋의 편집기 위치 (줄 시작 오프셋에서 이진 탐색)
+ */
+function positionAt(lineStarts: number[], offset: number): vscode.Position {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  
+  return new vscode.Position(low, offset - lineStarts[low]);
+}
\ No newline at end of file
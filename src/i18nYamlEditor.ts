@@ -0,0 +1,591 @@
+import * as yaml from 'yaml';
+import { isLocaleCode } from './i18nLocale';
+
+/**
+ * YAML 텍스트에 삽입할 내용
+ */
+export interface YamlInsertion {
+  offset: number; // 삽입 위치 (문자 오프셋)
+  text: string; // 삽입할 텍스트
+}
+
+/**
+ * YAML 텍스트에서 바꿀 내용 (offset부터 length 길이를 text로 교체)
+ */
+export interface YamlReplacement {
+  offset: number;
+  length: number;
+  text: string;
+}
+
+/**
+ * 위치에 있는 YAML 키 정보
+ */
+export interface YamlKeyAtOffset {
+  keyPath: string[]; // 최상위부터의 키 경로
+  start: number; // 키 시작 위치 (따옴표 포함)
+  end: number; // 키 끝 위치
+}
+
+/**
+ * YAML 매핑 키 트리의 노드
+ */
+export interface YamlKeyNode {
+  keyPath: string[]; // 최상위부터의 키 경로
+  keyStart: number; // 키 시작 위치 (따옴표 포함)
+  keyEnd: number; // 키 끝 위치
+  end: number; // 값까지 포함한 항목 끝 위치
+  children: YamlKeyNode[]; // 값이 매핑이면 하위 키
+}
+
+// 기본 들여쓰기 단위
+const DEFAULT_INDENT = 2;
+
+/**
+ * 키 경로에 해당하는 항목을 기존 부모 매핑 아래에 삽입하는 내용 계산
+ */
+export function createKeyInsertion(content: string, keyPath: string[], value: string): YamlInsertion {
+  return createPathInsertion(content, keyPath, (segment, column) =>
+    `${' '.repeat(column)}${formatKey(segment)}: ${formatValue(value)}\n`
+  );
+}
+
+/**
+ * 키 경로의 마지막 키를 렌더링 함수가 만든 내용으로 부모 매핑 아래에 삽입
+ */
+function createPathInsertion(
+  content: string,
+  keyPath: string[],
+  renderLeaf: (segment: string, column: number) => string
+): YamlInsertion {
+  const doc = yaml.parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw new Error(`YAML 파싱 오류가 있어 키를 추가할 수 없습니다: ${doc.errors[0].message}`);
+  }
+  
+  // 빈 파일이면 파일 끝에 전체 경로 추가
+  if (!doc.contents) {
+    const prefix = content.length > 0 && !content.endsWith('\n') ? '\n' : '';
+    return {
+      offset: content.length,
+      text: prefix + buildNestedLines(keyPath, 0, DEFAULT_INDENT, renderLeaf)
+    };
+  }
+  
+  if (!yaml.isMap(doc.contents)) {
+    throw new Error('YAML 최상위가 매핑이 아니라서 키를 추가할 수 없습니다.');
+  }
+  
+  let map: yaml.YAMLMap = doc.contents;
+  let emptyParent: yaml.Pair | null = null;
+  let depth = 0;
+  
+  // 이미 존재하는 가장 깊은 부모 매핑 찾기
+  while (depth < keyPath.length) {
+    const pair = findPair(map, keyPath[depth]);
+    if (!pair) {
+      break;
+    }
+    
+    if (depth === keyPath.length - 1) {
+      throw new Error(`"${keyPath.join('.')}" 키가 이미 존재합니다.`);
+    }
+    
+    if (yaml.isMap(pair.value)) {
+      map = pair.value;
+      depth++;
+      continue;
+    }
+    
+    // 값이 비어 있는 키 (예: "users:")는 빈 매핑으로 취급
+    if (pair.value === null || (yaml.isScalar(pair.value) && pair.value.value === null)) {
+      emptyParent = pair;
+      depth++;
+      break;
+    }
+    
+    throw new Error(`"${keyPath.slice(0, depth + 1).join('.')}" 키에 값이 있어 하위 키를 추가할 수 없습니다.`);
+  }
+  
+  const indentUnit = detectIndentUnit(content, doc);
+  const remaining = keyPath.slice(depth);
+  
+  // 값이 비어 있는 부모 키 바로 아래에 추가
+  if (emptyParent) {
+    const keyNode = emptyParent.key as yaml.Node;
+    const column = getColumn(content, keyNode.range![0]);
+    return createLineInsertion(content, keyNode.range![1], buildNestedLines(remaining, column + indentUnit, indentUnit, renderLeaf));
+  }
+  
+  if (map.flow) {
+    throw new Error(`"${keyPath.slice(0, depth).join('.')}" 키가 인라인 매핑이라서 하위 키를 추가할 수 없습니다.`);
+  }
+  
+  // 기존 형제 키와 같은 들여쓰기로 매핑 끝에 추가
+  const firstKey = map.items.length > 0 ? map.items[0].key as yaml.Node : null;
+  const column = firstKey && firstKey.range ? getColumn(content, firstKey.range[0]) : 0;
+  return createLineInsertion(content, map.range![1], buildNestedLines(remaining, column, indentUnit, renderLeaf));
+}
+
+/**
+ * 최상위 매핑에서 조건에 맞는 첫 번째 키 이름 찾기
+ */
+export function findRootKey(content: string, predicate: (key: string) => boolean): string | undefined {
+  const doc = yaml.parseDocument(content);
+  if (!yaml.isMap(doc.contents)) {
+    return undefined;
+  }
+  
+  for (const pair of doc.contents.items) {
+    const key = String(yaml.isScalar(pair.key) ? pair.key.value : pair.key);
+    if (predicate(key)) {
+      return key;
+    }
+  }
+  
+  return undefined;
+}
+
+/**
+ * 문자 오프셋 위치에 있는 매핑 키와 키 경로 찾기
+ */
+export function findKeyAtOffset(content: string, offset: number): YamlKeyAtOffset | undefined {
+  const doc = yaml.parseDocument(content);
+  let node: unknown = doc.contents;
+  const keyPath: string[] = [];
+  
+  while (yaml.isMap(node)) {
+    const map: yaml.YAMLMap = node;
+    node = undefined;
+    
+    for (const pair of map.items) {
+      const keyNode = pair.key as yaml.Node;
+      if (!yaml.isScalar(keyNode) || !keyNode.range) {
+        continue;
+      }
+      
+      if (offset >= keyNode.range[0] && offset <= keyNode.range[1]) {
+        return { keyPath: [...keyPath, String(keyNode.value)], start: keyNode.range[0], end: keyNode.range[1] };
+      }
+      
+      const valueNode = pair.value as yaml.Node | null;
+      if (yaml.isMap(valueNode) && valueNode.range && offset >= valueNode.range[0] && offset < valueNode.range[2]) {
+        keyPath.push(String(keyNode.value));
+        node = valueNode;
+        break;
+      }
+    }
+  }
+  
+  return undefined;
+}
+
+/**
+ * 문서의 모든 매핑 키를 중첩된 트리로 수집 (파싱 오류가 있어도 읽을 수 있는 부분까지)
+ */
+export function collectKeyNodes(content: string): YamlKeyNode[] {
+  return collectMapKeyNodes(yaml.parseDocument(content).contents, []);
+}
+
+/**
+ * 매핑의 키 노드 목록 (매핑이 아니거나 스칼라가 아닌 키는 제외)
+ */
+function collectMapKeyNodes(node: unknown, parentPath: string[]): YamlKeyNode[] {
+  if (!yaml.isMap(node)) {
+    return [];
+  }
+  
+  const keyNodes: YamlKeyNode[] = [];
+  for (const pair of node.items) {
+    const keyNode = pair.key as yaml.Node;
+    if (!yaml.isScalar(keyNode) || !keyNode.range) {
+      continue;
+    }
+    
+    const keyPath = [...parentPath, String(keyNode.value)];
+    const valueNode = pair.value as yaml.Node | null;
+    keyNodes.push({
+      keyPath,
+      keyStart: keyNode.range[0],
+      keyEnd: keyNode.range[1],
+      end: valueNode && valueNode.range ? Math.max(valueNode.range[1], keyNode.range[1]) : keyNode.range[1],
+      children: collectMapKeyNodes(valueNode, keyPath)
+    });
+  }
+  
+  return keyNodes;
+}
+
+/**
+ * 문자 오프셋 위치의 번역 키 (최상위 언어 키를 제외한 점으로 구분된 키, 언어 키 자체면 undefined)
+ */
+export function findLocaleKeyAtOffset(content: string, offset: number): { key: string, start: number, end: number } | undefined {
+  const keyAtOffset = findKeyAtOffset(content, offset);
+  if (!keyAtOffset) {
+    return undefined;
+  }
+  
+  const keyPath = isLocaleCode(keyAtOffset.keyPath[0]) ? keyAtOffset.keyPath.slice(1) : keyAtOffset.keyPath;
+  if (keyPath.length === 0) {
+    return undefined;
+  }
+  
+  return { key: keyPath.join('.'), start: keyAtOffset.start, end: keyAtOffset.end };
+}
+
+/**
+ * 키 이름을 바꾸거나 다른 부모 매핑으로 옮기는 수정 내용 계산
+ * (옮긴 뒤 비어 있게 된 부모 키는 keepDepth 깊이까지 함께 제거)
+ */
+export function createKeyRename(content: string, keyPath: string[], newKeyPath: string[], keepDepth: number = 0): YamlReplacement {
+  const doc = parseEditableDocument(content);
+  const pairs = findPairPath(doc, keyPath);
+  if (!pairs) {
+    throw new Error(`"${keyPath.join('.')}" 키를 찾을 수 없습니다.`);
+  }
+  
+  const pair = pairs[pairs.length - 1];
+  const keyNode = pair.key as yaml.Node;
+  const parentPath = keyPath.slice(0, -1);
+  const newParentPath = newKeyPath.slice(0, -1);
+  
+  // 같은 부모 아래에서 이름만 바뀌면 키 텍스트만 교체
+  if (parentPath.join('\n') === newParentPath.join('\n')) {
+    const newName = newKeyPath[newKeyPath.length - 1];
+    if (findPairPath(doc, newKeyPath)) {
+      throw new Error(`"${newKeyPath.join('.')}" 키가 이미 존재합니다.`);
+    }
+    
+    return {
+      offset: keyNode.range![0],
+      length: keyNode.range![1] - keyNode.range![0],
+      text: formatKey(newName)
+    };
+  }
+  
+  // 기존 위치에서 항목 블록을 잘라낸 뒤 새 부모 아래에 다시 삽입
+  const block = getPairBlock(content, pair);
+  const keyColumn = getColumn(content, keyNode.range![0]);
+  const keyOffset = keyNode.range![0] - block.start;
+  const keyLength = keyNode.range![1] - keyNode.range![0];
+  const blockText = content.substring(block.start, block.end);
+  let result = removePairBlock(content, keyPath, keepDepth);
+  
+  const insertion = createPathInsertion(result, newKeyPath, (segment, column) => {
+    const renamed = blockText.substring(0, keyOffset) + formatKey(segment) + blockText.substring(keyOffset + keyLength);
+    return reindentBlock(renamed, column - keyColumn);
+  });
+  result = result.substring(0, insertion.offset) + insertion.text + result.substring(insertion.offset);
+  
+  return createTextReplacement(content, result);
+}
+
+/**
+ * 키 항목을 삭제하는 수정 내용 계산 (비어 있게 된 부모 키는 keepDepth 깊이까지 함께 제거)
+ */
+export function createKeyRemoval(content: string, keyPath: string[], keepDepth: number = 0): YamlReplacement {
+  return createTextReplacement(content, removePairBlock(content, keyPath, keepDepth));
+}
+
+/**
+ * 키의 번역 값을 바꾸는 수정 내용 계산 (기존 값의 따옴표 형식과 블록 스칼라 형식 유지)
+ */
+export function createValueReplacement(content: string, keyPath: string[], value: string): YamlReplacement {
+  const doc = parseEditableDocument(content);
+  const pairs = findPairPath(doc, keyPath);
+  if (!pairs) {
+    throw new Error(`"${keyPath.join('.')}" 키를 찾을 수 없습니다.`);
+  }
+  
+  const pair = pairs[pairs.length - 1];
+  const keyNode = pair.key as yaml.Node;
+  const valueNode = pair.value as yaml.Node | null;
+  
+  // 값이 없는 키 (예: "title:")는 콜론 뒤에 값 추가
+  if (!valueNode || !valueNode.range || valueNode.range[0] === valueNode.range[1]) {
+    const colon = content.indexOf(':', keyNode.range![1]);
+    return { offset: colon + 1, length: 0, text: ` ${formatValue(value)}` };
+  }
+  
+  if (!yaml.isScalar(valueNode)) {
+    throw new Error(`"${keyPath.join('.')}" 키의 값이 문자열이 아니라서 수정할 수 없습니다.`);
+  }
+  
+  const start = valueNode.range[0];
+  const end = valueNode.range[1];
+  const original = content.substring(start, end);
+  
+  if (valueNode.type === yaml.Scalar.BLOCK_LITERAL || valueNode.type === yaml.Scalar.BLOCK_FOLDED) {
+    const header = original.substring(0, original.indexOf('\n') === -1 ? original.length : original.indexOf('\n'));
+    const contentLine = original.split('\n').slice(1).find(line => line.trim() !== '');
+    const indent = contentLine
+      ? contentLine.substring(0, contentLine.length - contentLine.trimStart().length)
+      : ' '.repeat(getColumn(content, keyNode.range![0]) + detectIndentUnit(content, doc));
+    const lines = value.split('\n').map(line => line ? indent + line : '');
+    return { offset: start, length: end - start, text: `${header}\n${lines.join('\n')}${original.endsWith('\n') ? '\n' : ''}` };
+  }
+  
+  return { offset: start, length: end - start, text: formatValueLike(value, valueNode.type) };
+}
+
+/**
+ * 기존 값과 같은 형식으로 값 포맷 (그대로 쓸 수 없는 값은 큰따옴표 사용)
+ */
+function formatValueLike(value: string, type: yaml.Scalar.Type | undefined): string {
+  const candidates: string[] = [];
+  if (type === yaml.Scalar.PLAIN) {
+    candidates.push(value);
+  } else if (type === yaml.Scalar.QUOTE_SINGLE && !value.includes('\n')) {
+    candidates.push(`'${value.replace(/'/g, "''")}'`);
+  }
+  
+  // 다시 파싱했을 때 같은 문자열이 되는 형식만 사용
+  const formatted = candidates.find(candidate => {
+    try {
+      const parsed = yaml.parse(`key: ${candidate}`);
+      return parsed && parsed.key === value;
+    } catch (error) {
+      return false;
+    }
+  });
+  
+  return formatted !== undefined ? formatted : formatValue(value);
+}
+
+/**
+ * 키 항목의 줄을 잘라낸 텍스트 (비어 있게 된 부모 키도 제거)
+ */
+function removePairBlock(content: string, keyPath: string[], keepDepth: number): string {
+  const pairs = findPairPath(parseEditableDocument(content), keyPath);
+  if (!pairs) {
+    throw new Error(`"${keyPath.join('.')}" 키를 찾을 수 없습니다.`);
+  }
+  
+  const block = getPairBlock(content, pairs[pairs.length - 1]);
+  let result = content.substring(0, block.start) + content.substring(block.end);
+  
+  // 비어 있게 된 부모 키 제거
+  for (let depth = keyPath.length - 1; depth > keepDepth; depth--) {
+    const parentPairs = findPairPath(parseEditableDocument(result), keyPath.slice(0, depth));
+    if (!parentPairs || !isEmptyValue(parentPairs[parentPairs.length - 1].value)) {
+      break;
+    }
+    
+    const parentBlock = getPairBlock(result, parentPairs[parentPairs.length - 1]);
+    result = result.substring(0, parentBlock.start) + result.substring(parentBlock.end);
+  }
+  
+  return result;
+}
+
+/**
+ * 수정할 수 있는 YAML 문서 파싱 (오류가 있거나 최상위가 매핑이 아니면 예외)
+ */
+function parseEditableDocument(content: string): yaml.Document {
+  const doc = yaml.parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw new Error(`YAML 파싱 오류가 있어 키를 수정할 수 없습니다: ${doc.errors[0].message}`);
+  }
+  
+  return doc;
+}
+
+/**
+ * 키 경로의 각 단계에 해당하는 항목 목록 (중간에 매핑이 아니면 undefined)
+ */
+function findPairPath(doc: yaml.Document, keyPath: string[]): yaml.Pair[] | undefined {
+  const pairs: yaml.Pair[] = [];
+  let node: unknown = doc.contents;
+  
+  for (const segment of keyPath) {
+    if (!yaml.isMap(node)) {
+      return undefined;
+    }
+    
+    const pair = findPair(node, segment);
+    if (!pair) {
+      return undefined;
+    }
+    
+    pairs.push(pair);
+    node = pair.value;
+  }
+  
+  return pairs;
+}
+
+/**
+ * 항목이 차지하는 줄 범위 (키가 있는 줄 처음부터 값의 마지막 줄 끝까지)
+ */
+function getPairBlock(content: string, pair: yaml.Pair): { start: number, end: number } {
+  const keyNode = pair.key as yaml.Node;
+  const valueNode = pair.value as yaml.Node | null;
+  const lineStart = content.lastIndexOf('\n', keyNode.range![0] - 1) + 1;
+  
+  if (content.substring(lineStart, keyNode.range![0]).trim() !== '') {
+    throw new Error(`"${String(yaml.isScalar(keyNode) ? keyNode.value : keyNode)}" 키가 인라인 매핑 안에 있어 옮길 수 없습니다.`);
+  }
+  
+  const valueEnd = valueNode && valueNode.range ? valueNode.range[1] : keyNode.range![1];
+  if (valueEnd > 0 && content[valueEnd - 1] === '\n') {
+    return { start: lineStart, end: valueEnd };
+  }
+  
+  const lineEnd = content.indexOf('\n', valueEnd);
+  return { start: lineStart, end: lineEnd === -1 ? content.length : lineEnd + 1 };
+}
+
+/**
+ * 값이 없거나 빈 매핑인지 확인
+ */
+function isEmptyValue(value: unknown): boolean {
+  return value === null
+    || (yaml.isScalar(value) && value.value === null)
+    || (yaml.isMap(value) && value.items.length === 0);
+}
+
+/**
+ * 블록의 모든 줄 들여쓰기를 같은 만큼 조정 (빈 줄은 그대로)
+ */
+function reindentBlock(block: string, delta: number): string {
+  const lines = block.split('\n').map(line => {
+    if (line.trim() === '') {
+      return line;
+    }
+    if (delta >= 0) {
+      return ' '.repeat(delta) + line;
+    }
+    
+    const indent = line.length - line.trimLeft().length;
+    return line.substring(Math.min(-delta, indent));
+  });
+  
+  const text = lines.join('\n');
+  return text.endsWith('\n') ? text : `${text}\n`;
+}
+
+/**
+ * 두 텍스트의 공통 앞뒤를 제외한 교체 내용 계산
+ */
+export function createTextReplacement(original: string, modified: string): YamlReplacement {
+  let prefix = 0;
+  while (prefix < original.length && prefix < modified.length && original[prefix] === modified[prefix]) {
+    prefix++;
+  }
+  
+  let suffix = 0;
+  while (
+    suffix < original.length - prefix &&
+    suffix < modified.length - prefix &&
+    original[original.length - 1 - suffix] === modified[modified.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  
+  return {
+    offset: prefix,
+    length: original.length - prefix - suffix,
+    text: modified.substring(prefix, modified.length - suffix)
+  };
+}
+
+/**
+ * 매핑에서 키 이름으로 항목 찾기
+ */
+function findPair(map: yaml.YAMLMap, key: string): yaml.Pair | undefined {
+  return map.items.find(pair => {
+    const pairKey = yaml.isScalar(pair.key) ? pair.key.value : pair.key;
+    return String(pairKey) === key;
+  }) as yaml.Pair | undefined;
+}
+
+/**
+ * 지정한 위치가 속한 라인 다음 줄에 삽입하는 내용 생성
+ */
+function createLineInsertion(content: string, end: number, lines: string): YamlInsertion {
+  // 값이 줄바꿈까지 포함하는 경우 (블록 스칼라 등)
+  if (end > 0 && content[end - 1] === '\n') {
+    return { offset: end, text: lines };
+  }
+  
+  const lineEnd = content.indexOf('\n', end);
+  if (lineEnd === -1) {
+    return { offset: content.length, text: '\n' + lines };
+  }
+  
+  return { offset: lineEnd + 1, text: lines };
+}
+
+/**
+ * 남은 키 경로를 중첩된 YAML 라인으로 변환
+ */
+function buildNestedLines(
+  keyPath: string[],
+  column: number,
+  indentUnit: number,
+  renderLeaf: (segment: string, column: number) => string
+): string {
+  return keyPath.map((segment, index) => {
+    const indentColumn = column + index * indentUnit;
+    const isLeaf = index === keyPath.length - 1;
+    return isLeaf
+      ? renderLeaf(segment, indentColumn)
+      : `${' '.repeat(indentColumn)}${formatKey(segment)}:\n`;
+  }).join('');
+}
+
+/**
+ * YAML 키 문자열 포맷 (필요한 경우에만 따옴표 사용)
+ */
+export function formatKey(key: string): string {
+  if (/^[A-Za-z0-9_][A-Za-z0-9_\-]*$/.test(key) && !isReservedScalar(key)) {
+    return key;
+  }
+  return JSON.stringify(key);
+}
+
+/**
+ * YAML 값 문자열 포맷 (항상 큰따옴표 사용)
+ */
+export function formatValue(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * 따옴표 없이 쓰면 문자열이 아닌 값으로 해석되는 키인지 확인
+ */
+function isReservedScalar(key: string): boolean {
+  return /^(true|false|yes|no|on|off|null|y|n|~|\d+(\.\d+)?)$/i.test(key);
+}
+
+/**
+ * 파일에서 사용하는 들여쓰기 단위 감지
+ */
+function detectIndentUnit(content: string, doc: yaml.Document): number {
+  if (!yaml.isMap(doc.contents)) {
+    return DEFAULT_INDENT;
+  }
+  
+  for (const pair of doc.contents.items) {
+    const parentKey = pair.key as yaml.Node;
+    if (yaml.isMap(pair.value) && !pair.value.flow && pair.value.items.length > 0 && parentKey.range) {
+      const childKey = pair.value.items[0].key as yaml.Node;
+      if (childKey.range) {
+        const unit = getColumn(content, childKey.range[0]) - getColumn(content, parentKey.range[0]);
+        if (unit > 0) {
+          return unit;
+        }
+      }
+    }
+  }
+  
+  return DEFAULT_INDENT;
+}
+
+/**
+ * 문자 오프셋의 열 번호 계산
+ */
+function getColumn(content: string, offset: number): number {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  return offset - lineStart;
+}
\ No newline at end of file